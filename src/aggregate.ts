@@ -0,0 +1,155 @@
+import { findMany } from './query'
+import { getValueByPath, compareValues } from './utils'
+import { defaultContext } from './context'
+import { getSortNormalizer } from './sort'
+import { isNumber, isNullOrUndefined, isObject } from './guards'
+import type {
+  AggregateFields,
+  AggregateQuery,
+  AggregateResult,
+  AggregateSelection,
+  QueryContext,
+  QuerySource,
+} from './types'
+
+/**
+ * Sum numeric values at a path, ignoring non-numeric values
+ */
+function sumPath<T extends object>(
+  items: T[],
+  path: string
+): { sum: number; count: number } {
+  let sum = 0
+  let count = 0
+  for (const item of items) {
+    const value = getValueByPath(item, path)
+    if (isNumber(value) && !isNaN(value)) {
+      sum += value
+      count++
+    }
+  }
+  return { sum, count }
+}
+
+/**
+ * Find the smallest (direction 1) or largest (direction -1) value at a path.
+ * Values of date paths in the schema are compared as dates.
+ */
+function extremePath<T extends object>(
+  items: T[],
+  path: string,
+  direction: 1 | -1,
+  context: QueryContext
+): unknown {
+  const normalize = getSortNormalizer(path, context)
+  let result: unknown = null
+  let resultKey: unknown = null
+  for (const item of items) {
+    const value = getValueByPath(item, path)
+    if (isNullOrUndefined(value)) {
+      continue
+    }
+    const key = normalize(value)
+    if (result === null || compareValues(key, resultKey) * direction < 0) {
+      result = value
+      resultKey = key
+    }
+  }
+  return result
+}
+
+function mapFields(
+  fields: AggregateFields<unknown> | undefined,
+  compute: (path: string) => unknown
+): Record<string, unknown> | undefined {
+  if (!isObject(fields)) {
+    return undefined
+  }
+  const result: Record<string, unknown> = {}
+  for (const path in fields) {
+    if (fields[path as keyof typeof fields]) {
+      result[path] = compute(path)
+    }
+  }
+  return result
+}
+
+/**
+ * Compute the selected aggregations over a list of objects
+ */
+export function computeAggregates<T extends object>(
+  items: T[],
+  selection: AggregateSelection<T>,
+  context: QueryContext = defaultContext
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {}
+  const { _count, _sum, _avg, _min, _max } = selection
+
+  if (_count === true) {
+    result._count = items.length
+  } else if (_count) {
+    result._count = mapFields(_count, (path) =>
+      path === '_all'
+        ? items.length
+        : items.filter((item) => !isNullOrUndefined(getValueByPath(item, path)))
+            .length
+    )
+  }
+
+  if (_sum) {
+    result._sum = mapFields(_sum, (path) => {
+      const { sum, count } = sumPath(items, path)
+      return count === 0 ? null : sum
+    })
+  }
+
+  if (_avg) {
+    result._avg = mapFields(_avg, (path) => {
+      const { sum, count } = sumPath(items, path)
+      return count === 0 ? null : sum / count
+    })
+  }
+
+  if (_min) {
+    result._min = mapFields(_min, (path) =>
+      extremePath(items, path, 1, context)
+    )
+  }
+
+  if (_max) {
+    result._max = mapFields(_max, (path) =>
+      extremePath(items, path, -1, context)
+    )
+  }
+
+  return result
+}
+
+/**
+ * Aggregate values of objects matching a filter
+ * @param objects - Array of objects or indexed collection to aggregate
+ * @param query - Filter and aggregations (_count, _sum, _avg, _min, _max),
+ * with `strict: true` to validate the filter
+ * @param context - Operators of an engine (see createEngine), built-in operators by default
+ * @returns Object with one entry per selected aggregation
+ *
+ * @example
+ * aggregate(orders, {
+ *   where: { status: "paid" },
+ *   _count: true,
+ *   _sum: { total: true },
+ *   _max: { createdAt: true },
+ * })
+ */
+export function aggregate<T extends object, Q extends AggregateQuery<T>>(
+  objects: QuerySource<T>,
+  query: Q,
+  context: QueryContext = defaultContext
+): AggregateResult<T, Q> {
+  const items = findMany(
+    objects ?? [],
+    { where: query.where, strict: query.strict },
+    context
+  )
+  return computeAggregates(items, query, context) as AggregateResult<T, Q>
+}
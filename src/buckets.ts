@@ -0,0 +1,232 @@
+import { getValueByPath } from './utils'
+import { isDate, isNumber, isObject, isString } from './guards'
+import { addDateUnits, getDateParts, startOfDateUnit } from './operators/date'
+import { QueryError } from './errors'
+import type {
+  BoundaryBucket,
+  DateBucket,
+  GroupKeySource,
+  GroupKeySpec,
+  RangeBucket,
+} from './types'
+
+/**
+ * Resolves group keys and display names for one grouping key
+ */
+export type GroupKeyResolver<T> = {
+  /** Group key of an item */
+  resolve: (item: T) => unknown
+  /** Display name of a group key */
+  name: (key: unknown) => string
+  /** Every bucket key between the smallest and largest key (fillEmpty only) */
+  fill?: (keys: unknown[]) => unknown[]
+}
+
+/**
+ * Most buckets fillEmpty adds for one grouping key
+ */
+const maxFillBuckets = 10000
+
+/**
+ * Relative tolerance for values on a range boundary, so that 0.3 lands in
+ * [0.3, 0.4) although 0.3 / 0.1 is 2.9999999999999996
+ */
+const boundaryEpsilon = 1e-9
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0')
+}
+
+function tooManyBuckets(): QueryError {
+  return new QueryError(
+    `Too many buckets to fill, fillEmpty adds at most ${maxFillBuckets}`,
+    'fillEmpty'
+  )
+}
+
+/**
+ * Round away float noise such as 3 * 0.1 = 0.30000000000000004
+ */
+function dropFloatNoise(value: number): number {
+  return parseFloat(value.toPrecision(12))
+}
+
+function toSource<T>(source: GroupKeySource<T>): (item: T) => unknown {
+  return isString(source)
+    ? (item) => getValueByPath(item as object, source)
+    : source
+}
+
+/**
+ * Numeric value of a number or date, for range comparisons
+ */
+function toOrdinal(value: unknown): number | undefined {
+  if (isDate(value)) {
+    return value.getTime()
+  }
+  if (isNumber(value) && !isNaN(value)) {
+    return value
+  }
+  return undefined
+}
+
+function formatBoundary(value: unknown): string {
+  return isDate(value) ? value.toISOString() : String(value)
+}
+
+function createDateResolver<T>(spec: DateBucket<T>): GroupKeyResolver<T> {
+  const { date: unit, timeZone = 'UTC', weekStartsOn = 1 } = spec
+  const source = toSource(spec.field)
+
+  return {
+    resolve: (item) => {
+      const value = source(item)
+      return isDate(value)
+        ? startOfDateUnit(value, unit, timeZone, weekStartsOn)
+        : null
+    },
+    name: (key) => {
+      if (!isDate(key)) {
+        return String(key)
+      }
+      const { year, month, day } = getDateParts(key, timeZone)
+      switch (unit) {
+        case 'day':
+        case 'week':
+          return `${pad(year, 4)}-${pad(month)}-${pad(day)}`
+        case 'month':
+          return `${pad(year, 4)}-${pad(month)}`
+        case 'quarter':
+          return `${pad(year, 4)}-Q${Math.ceil(month / 3)}`
+        case 'year':
+          return pad(year, 4)
+      }
+    },
+    fill: spec.fillEmpty
+      ? (keys) => {
+          const times = keys.filter(isDate).map((key) => key.getTime())
+          if (times.length === 0) {
+            return []
+          }
+          const last = Math.max(...times)
+          const buckets: Date[] = []
+          for (
+            let current = new Date(Math.min(...times));
+            current.getTime() <= last;
+            current = addDateUnits(current, unit, 1, timeZone)
+          ) {
+            if (buckets.length === maxFillBuckets) {
+              throw tooManyBuckets()
+            }
+            buckets.push(current)
+          }
+          return buckets
+        }
+      : undefined,
+  }
+}
+
+function createRangeResolver<T>(spec: RangeBucket<T>): GroupKeyResolver<T> {
+  const { width, offset = 0 } = spec
+  const source = toSource(spec.field)
+  const indexOf = (value: number) => {
+    const quotient = (value - offset) / width
+    const nearest = Math.round(quotient)
+    return Math.abs(quotient - nearest) <=
+      boundaryEpsilon * Math.max(1, Math.abs(quotient))
+      ? nearest
+      : Math.floor(quotient)
+  }
+  const keyOf = (index: number) => dropFloatNoise(index * width + offset)
+
+  return {
+    resolve: (item) => {
+      const value = source(item)
+      return isNumber(value) && isFinite(value) && width > 0
+        ? keyOf(indexOf(value))
+        : null
+    },
+    name: (key) =>
+      isNumber(key) ? `[${key}, ${dropFloatNoise(key + width)})` : String(key),
+    fill: spec.fillEmpty
+      ? (keys) => {
+          const indexes = keys.filter(isNumber).map(indexOf)
+          if (indexes.length === 0) {
+            return []
+          }
+          const first = Math.min(...indexes)
+          const last = Math.max(...indexes)
+          if (last - first >= maxFillBuckets) {
+            throw tooManyBuckets()
+          }
+          const buckets: number[] = []
+          for (let i = first; i <= last; i++) {
+            buckets.push(keyOf(i))
+          }
+          return buckets
+        }
+      : undefined,
+  }
+}
+
+function createBoundaryResolver<T>(
+  spec: BoundaryBucket<T>
+): GroupKeyResolver<T> {
+  const { boundaries } = spec
+  const ordinals = boundaries.map(toOrdinal)
+  const source = toSource(spec.field)
+
+  return {
+    resolve: (item) => {
+      const value = source(item)
+      const ordinal = toOrdinal(value)
+      if (ordinal === undefined || isDate(value) !== isDate(boundaries[0])) {
+        return null
+      }
+      for (let i = 0; i < boundaries.length - 1; i++) {
+        const lower = ordinals[i]
+        const upper = ordinals[i + 1]
+        if (
+          lower !== undefined &&
+          upper !== undefined &&
+          ordinal >= lower &&
+          ordinal < upper
+        ) {
+          return boundaries[i]
+        }
+      }
+      return null
+    },
+    name: (key) => {
+      const index = boundaries.indexOf(key as number | Date)
+      return index === -1
+        ? String(key)
+        : `[${formatBoundary(key)}, ${formatBoundary(boundaries[index + 1])})`
+    },
+    fill: spec.fillEmpty ? () => boundaries.slice(0, -1) : undefined,
+  }
+}
+
+/**
+ * Create the key resolver for a path, key function or bucketing strategy
+ */
+export function createKeyResolver<T>(
+  spec: GroupKeySpec<T>
+): GroupKeyResolver<T> {
+  if (isObject(spec)) {
+    if ('date' in spec) {
+      return createDateResolver(spec)
+    }
+    if ('width' in spec) {
+      return createRangeResolver(spec)
+    }
+    if ('boundaries' in spec) {
+      return createBoundaryResolver(spec)
+    }
+  }
+
+  return {
+    resolve: toSource(spec as GroupKeySource<T>),
+    name: (key) => String(key),
+  }
+}
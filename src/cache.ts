@@ -10,3 +10,19 @@ export function getCachedRegex(pattern: string, flags: string): RegExp {
   }
   return regex
 }
+
+// Collators are expensive to create, reuse them per locale and sensitivity
+const collatorCache = new Map<string, Intl.Collator>()
+
+export function getCachedCollator(
+  locale: string | undefined,
+  sensitivity: Intl.CollatorOptions['sensitivity']
+): Intl.Collator {
+  const key = `${locale ?? ''}:${sensitivity}`
+  let collator = collatorCache.get(key)
+  if (!collator) {
+    collator = new Intl.Collator(locale, { sensitivity })
+    collatorCache.set(key, collator)
+  }
+  return collator
+}
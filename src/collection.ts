@@ -0,0 +1,639 @@
+import { getPathAccessor } from './utils'
+import { isCollectedValues } from './operators/array'
+import { getCollation } from './operators/string'
+import { defaultContext } from './context'
+import { getDateHint } from './schema'
+import {
+  getNumericKey,
+  isArray,
+  isBigInt,
+  isContainer,
+  isDate,
+  isNumber,
+  isObject,
+  isString,
+} from './guards'
+import type {
+  CollectionIndexType,
+  CollectionOptions,
+  IndexedCollection,
+  ObjectFilter,
+  QueryContext,
+  QuerySource,
+} from './types'
+
+type Entry<T> = {
+  item: T
+  /** Insertion sequence, used to return candidates in collection order */
+  seq: number
+  /** Index keys of the item per index, as stored when it was last indexed */
+  keys: unknown[][]
+}
+
+type SortedKind = 'number' | 'string' | 'date'
+
+type SortedKey = {
+  kind: SortedKind
+  ordinal: number | bigint | string
+}
+
+type SortedSlot<T> = SortedKey & { entry: Entry<T> }
+
+type Bound = {
+  ordinal: number | bigint | string
+  inclusive: boolean
+}
+
+type Range = {
+  kind: SortedKind
+  lower?: Bound
+  upper?: Bound
+}
+
+type Index<T> = {
+  type: CollectionIndexType
+  position: number
+  accessor: (obj: Record<string, unknown>) => unknown
+  /** Hash index: entries by key */
+  buckets: Map<unknown, Set<Entry<T>>>
+  /** Sorted index: entries ordered by value, one list per value kind */
+  slots: Record<SortedKind, SortedSlot<T>[]>
+  /**
+   * Whether an item has several values collected through arrays, which can
+   * satisfy each comparison of a condition with a different value
+   */
+  multikey: boolean
+}
+
+type CollectionState<T> = {
+  items: T[]
+  entries: Map<T, Entry<T>>
+  indexes: Map<string, Index<T>>
+  nextSeq: number
+}
+
+const NO_KEY = Symbol('no-key')
+
+const collectionStates = new WeakMap<object, CollectionState<unknown>>()
+
+/**
+ * Hash key of a value: primitives as-is, dates by time, bigints as the
+ * number of the same value. Objects and arrays are not indexed.
+ */
+function getHashKey(value: unknown): unknown {
+  if (isDate(value)) {
+    return value.getTime()
+  }
+  if (isObject(value) || isArray(value) || isContainer(value)) {
+    return NO_KEY
+  }
+  return getNumericKey(value)
+}
+
+/**
+ * Sort key of a value. Range operators only compare values of the same kind,
+ * so numbers (and bigints), strings and dates are kept apart.
+ */
+function getSortedKey(value: unknown): SortedKey | undefined {
+  if ((isNumber(value) && !isNaN(value)) || isBigInt(value)) {
+    return { kind: 'number', ordinal: value }
+  }
+  if (isString(value)) {
+    return { kind: 'string', ordinal: value }
+  }
+  if (isDate(value) && !isNaN(value.getTime())) {
+    return { kind: 'date', ordinal: value.getTime() }
+  }
+  return undefined
+}
+
+/**
+ * First slot position whose ordinal is >= (or > when `after`) the given ordinal
+ */
+function searchSlots<T>(
+  slots: SortedSlot<T>[],
+  ordinal: number | bigint | string,
+  after: boolean
+): number {
+  let low = 0
+  let high = slots.length
+  while (low < high) {
+    const mid = (low + high) >>> 1
+    const current = slots[mid].ordinal
+    // Compared with <= rather than === so that bigints equal numbers
+    if (after ? current <= ordinal : current < ordinal) {
+      low = mid + 1
+    } else {
+      high = mid
+    }
+  }
+  return low
+}
+
+/**
+ * Values of an item at the index path: one value, or every value collected
+ * through arrays along the path (multikey)
+ */
+function getIndexValues<T>(index: Index<T>, item: T): unknown[] {
+  const value = index.accessor(item as Record<string, unknown>)
+  if (isCollectedValues(value)) {
+    index.multikey = true
+    return value
+  }
+  return [value]
+}
+
+function addToIndex<T>(index: Index<T>, entry: Entry<T>): void {
+  const values = getIndexValues(index, entry.item)
+
+  if (index.type === 'hash') {
+    const keys = Array.from(new Set(values.map(getHashKey))).filter(
+      (key) => key !== NO_KEY
+    )
+    entry.keys[index.position] = keys
+    for (const key of keys) {
+      let bucket = index.buckets.get(key)
+      if (!bucket) {
+        bucket = new Set()
+        index.buckets.set(key, bucket)
+      }
+      bucket.add(entry)
+    }
+    return
+  }
+
+  const keys = values
+    .map(getSortedKey)
+    .filter((key): key is SortedKey => key !== undefined)
+  entry.keys[index.position] = keys
+  for (const key of keys) {
+    const slots = index.slots[key.kind]
+    slots.splice(searchSlots(slots, key.ordinal, true), 0, { ...key, entry })
+  }
+}
+
+function removeFromIndex<T>(index: Index<T>, entry: Entry<T>): void {
+  const keys = entry.keys[index.position] ?? []
+
+  if (index.type === 'hash') {
+    for (const key of keys) {
+      const bucket = index.buckets.get(key)
+      bucket?.delete(entry)
+      if (bucket && bucket.size === 0) {
+        index.buckets.delete(key)
+      }
+    }
+    return
+  }
+
+  for (const key of keys) {
+    const { kind, ordinal } = key as SortedKey
+    const slots = index.slots[kind]
+    for (
+      let i = searchSlots(slots, ordinal, false);
+      i < slots.length && slots[i].ordinal <= ordinal;
+      i++
+    ) {
+      if (slots[i].entry === entry) {
+        slots.splice(i, 1)
+        break
+      }
+    }
+  }
+}
+
+function intersect<T>(
+  sets: (Set<Entry<T>> | undefined)[]
+): Set<Entry<T>> | undefined {
+  const defined = sets
+    .filter((set): set is Set<Entry<T>> => set !== undefined)
+    .sort((a, b) => a.size - b.size)
+  if (defined.length <= 1) {
+    return defined[0]
+  }
+
+  const [smallest, ...rest] = defined
+  const result = new Set<Entry<T>>()
+  smallest.forEach((entry) => {
+    if (rest.every((set) => set.has(entry))) {
+      result.add(entry)
+    }
+  })
+  return result
+}
+
+function union<T>(
+  sets: (Set<Entry<T>> | undefined)[]
+): Set<Entry<T>> | undefined {
+  const result = new Set<Entry<T>>()
+  for (const set of sets) {
+    if (!set) {
+      return undefined
+    }
+    set.forEach((entry) => result.add(entry))
+  }
+  return result
+}
+
+/**
+ * Hash keys an equality condition can match, or undefined if the index can't be used
+ */
+function getEqualityKeys(condition: unknown): unknown[] | undefined {
+  if (!isObject(condition)) {
+    return isArray(condition) || isContainer(condition)
+      ? undefined
+      : [condition]
+  }
+  if (isDate(condition)) {
+    return undefined
+  }
+  if ('$eq' in condition) {
+    const key = getHashKey(condition.$eq)
+    return key === NO_KEY ? undefined : [key]
+  }
+  if (isArray(condition.$in)) {
+    const keys = condition.$in.map(getHashKey)
+    return keys.includes(NO_KEY) ? undefined : keys
+  }
+  return undefined
+}
+
+function lookupHash<T>(
+  index: Index<T>,
+  condition: unknown
+): Set<Entry<T>> | undefined {
+  const keys = getEqualityKeys(condition)
+  return keys && union(keys.map((key) => index.buckets.get(key) ?? new Set()))
+}
+
+/**
+ * Narrow a range by one bound, keeping the tighter of the two
+ */
+function narrowRange(
+  range: Range | undefined,
+  side: 'lower' | 'upper',
+  value: unknown,
+  inclusive: boolean
+): Range | null {
+  const key = getSortedKey(value)
+  if (!key || (range && range.kind !== key.kind)) {
+    // No value can satisfy comparisons against mixed or unordered operands
+    return null
+  }
+
+  const next: Range = range ? { ...range } : { kind: key.kind }
+  const current = next[side]
+  const tighter =
+    !current ||
+    (side === 'lower'
+      ? key.ordinal > current.ordinal
+      : key.ordinal < current.ordinal) ||
+    (key.ordinal === current.ordinal && !inclusive)
+
+  if (tighter) {
+    next[side] = { ordinal: key.ordinal, inclusive }
+  }
+  return next
+}
+
+/**
+ * Range selected by the comparison operators of a condition.
+ * undefined when there are none, null when nothing can match.
+ */
+function getRange(
+  condition: Record<string, unknown>
+): Range | null | undefined {
+  let range: Range | null | undefined
+
+  for (const operator in condition) {
+    if (range === null) {
+      break
+    }
+    const operand = condition[operator]
+    switch (operator) {
+      case '$gt':
+      case '$gte':
+        range = narrowRange(range, 'lower', operand, operator === '$gte')
+        break
+      case '$lt':
+      case '$lte':
+        range = narrowRange(range, 'upper', operand, operator === '$lte')
+        break
+      case '$between': {
+        const [min, max] = isArray(operand)
+          ? operand
+          : isObject(operand)
+            ? [operand.min, operand.max]
+            : []
+        range = narrowRange(range, 'lower', min, true)
+        if (range) {
+          range = narrowRange(range, 'upper', max, true)
+        }
+        break
+      }
+    }
+  }
+
+  return range
+}
+
+function collectRange<T>(index: Index<T>, range: Range): Set<Entry<T>> {
+  const slots = index.slots[range.kind]
+  const { lower, upper } = range
+  const start = lower ? searchSlots(slots, lower.ordinal, !lower.inclusive) : 0
+  const end = upper
+    ? searchSlots(slots, upper.ordinal, upper.inclusive)
+    : slots.length
+
+  const result = new Set<Entry<T>>()
+  for (let i = start; i < end; i++) {
+    result.add(slots[i].entry)
+  }
+  return result
+}
+
+function lookupSorted<T>(
+  index: Index<T>,
+  condition: unknown
+): Set<Entry<T>> | undefined {
+  if (isObject(condition) && !isDate(condition)) {
+    // With multikey items, each comparison may be satisfied by a different value
+    const ranges = (
+      index.multikey
+        ? Object.keys(condition).map((operator) =>
+            getRange({ [operator]: condition[operator] })
+          )
+        : [getRange(condition)]
+    ).filter((range) => range !== undefined)
+    if (ranges.length > 0) {
+      return intersect(
+        ranges.map((range) =>
+          range === null ? new Set<Entry<T>>() : collectRange(index, range)
+        )
+      )
+    }
+  }
+
+  const keys = getEqualityKeys(condition)
+  if (!keys) {
+    return undefined
+  }
+  const points = isObject(condition)
+    ? isArray(condition.$in)
+      ? condition.$in
+      : [condition.$eq]
+    : [condition]
+
+  return union(
+    points.map((point) => {
+      const key = getSortedKey(point)
+      return key
+        ? collectRange(index, {
+            kind: key.kind,
+            lower: { ordinal: key.ordinal, inclusive: true },
+            upper: { ordinal: key.ordinal, inclusive: true },
+          })
+        : undefined
+    })
+  )
+}
+
+/**
+ * Check whether a condition compares strings under a collation, which the
+ * hash keys and sort order of the indexes don't reflect
+ */
+function isCollated(condition: unknown, context: QueryContext): boolean {
+  if (isString(condition)) {
+    return context.collation !== undefined
+  }
+  return (
+    isObject(condition) &&
+    isString(condition.$eq) &&
+    getCollation(condition, context) !== undefined
+  )
+}
+
+/**
+ * Check whether a condition compares ranges with type coercion, which the
+ * kinds of the sorted index keys don't reflect
+ */
+function isCoerced(condition: unknown, context: QueryContext): boolean {
+  return (
+    context.coerceTypes === true &&
+    isObject(condition) &&
+    ['$gt', '$gte', '$lt', '$lte', '$between'].some(
+      (operator) => operator in condition
+    )
+  )
+}
+
+/**
+ * Entries that may match a where clause, or undefined when no index applies.
+ * Candidates are a superset of the matches and must still be filtered.
+ * Paths of the indexes that narrowed the result are added to `used`.
+ */
+function findEntries<T>(
+  state: CollectionState<T>,
+  where: unknown,
+  used: Set<string>,
+  context: QueryContext
+): Set<Entry<T>> | undefined {
+  if (isArray(where)) {
+    return intersect(
+      where.map((filter) => findEntries(state, filter, used, context))
+    )
+  }
+  if (!isObject(where)) {
+    return undefined
+  }
+
+  const sets: (Set<Entry<T>> | undefined)[] = []
+
+  for (const key in where) {
+    const condition = where[key]
+    if (key === '$and') {
+      if (isArray(condition)) {
+        sets.push(findEntries(state, condition, used, context))
+      }
+    } else if (key === '$or') {
+      if (isArray(condition)) {
+        // Branch indexes only count when every branch could use one
+        const branchUsed = new Set<string>()
+        const set = union(
+          condition.map((filter) =>
+            findEntries(state, filter, branchUsed, context)
+          )
+        )
+        if (set) {
+          branchUsed.forEach((path) => used.add(path))
+        }
+        sets.push(set)
+      }
+    } else if (key.charCodeAt(0) !== 36 && condition !== undefined) {
+      const index = state.indexes.get(key)
+      if (
+        index &&
+        !isCollated(condition, context) &&
+        !isCoerced(condition, context) &&
+        // Index keys don't convert the values of date paths
+        getDateHint(key, context) === undefined
+      ) {
+        const set =
+          index.type === 'hash'
+            ? lookupHash(index, condition)
+            : lookupSorted(index, condition)
+        if (set) {
+          used.add(key)
+        }
+        sets.push(set)
+      }
+    }
+  }
+
+  return intersect(sets)
+}
+
+function getState<T>(collection: IndexedCollection<T>): CollectionState<T> {
+  return collectionStates.get(collection) as CollectionState<T>
+}
+
+/**
+ * Check whether a query source is an indexed collection
+ */
+export function isIndexedCollection<T>(
+  source: QuerySource<T>
+): source is IndexedCollection<T> {
+  return collectionStates.has(source)
+}
+
+/**
+ * Paths and kinds of the indexes kept by a collection
+ */
+export function getCollectionIndexes<T>(
+  collection: IndexedCollection<T>
+): { path: string; type: CollectionIndexType }[] {
+  return Array.from(getState(collection).indexes, ([path, index]) => ({
+    path,
+    type: index.type,
+  }))
+}
+
+/**
+ * Items of a collection that may match a where clause, in insertion order,
+ * together with the paths of the indexes used to narrow them.
+ * Returns all items when no index applies.
+ */
+export function selectCandidates<T>(
+  collection: IndexedCollection<T>,
+  where: ObjectFilter<T> | ObjectFilter<T>[] | undefined,
+  context: QueryContext = defaultContext
+): { items: T[]; indexes: string[] } {
+  const state = getState(collection)
+  const used = new Set<string>()
+  const entries = findEntries(state, where, used, context)
+  if (!entries) {
+    return { items: state.items, indexes: [] }
+  }
+  return {
+    items: Array.from(entries)
+      .sort((a, b) => a.seq - b.seq)
+      .map((entry) => entry.item),
+    indexes: Array.from(used),
+  }
+}
+
+/**
+ * Create an indexed collection for repeated queries
+ *
+ * Hash indexes serve equality and `$in` conditions, sorted indexes serve
+ * `$gt`/`$gte`/`$lt`/`$lte`/`$between` on numbers, strings and dates as well as equality.
+ * The query functions use the indexes automatically and filter the remaining conditions as usual.
+ *
+ * @param items - Initial items
+ * @param options - Paths to index
+ * @returns Collection to pass to findMany, findFirst, findPage, groupBy and aggregate
+ *
+ * @example
+ * const products = createCollection(items, {
+ *   indexes: { category: "hash", price: "sorted" },
+ * })
+ * findMany(products, { where: { category: "books", price: { $lt: 20 } } })
+ */
+export function createCollection<T extends object>(
+  items: T[] = [],
+  options: CollectionOptions<T> = {}
+): IndexedCollection<T> {
+  const state: CollectionState<T> = {
+    items: [],
+    entries: new Map(),
+    indexes: new Map(),
+    nextSeq: 0,
+  }
+
+  Object.entries(options.indexes ?? {}).forEach(([path, type], position) => {
+    state.indexes.set(path, {
+      type: type as CollectionIndexType,
+      position,
+      accessor: getPathAccessor(path),
+      buckets: new Map(),
+      slots: { number: [], string: [], date: [] },
+      multikey: false,
+    })
+  })
+
+  const reindex = (entry: Entry<T>) => {
+    state.indexes.forEach((index) => {
+      removeFromIndex(index, entry)
+      addToIndex(index, entry)
+    })
+  }
+
+  const insertItems = (newItems: T[]) => {
+    for (const item of newItems) {
+      const existing = state.entries.get(item)
+      if (existing) {
+        reindex(existing)
+        continue
+      }
+      const entry: Entry<T> = { item, seq: state.nextSeq++, keys: [] }
+      state.entries.set(item, entry)
+      state.items.push(item)
+      state.indexes.forEach((index) => addToIndex(index, entry))
+    }
+  }
+
+  const collection: IndexedCollection<T> = {
+    get items() {
+      return state.items
+    },
+    get size() {
+      return state.items.length
+    },
+    insert: (...newItems) => insertItems(newItems),
+    update: (item, changes) => {
+      const entry = state.entries.get(item)
+      if (!entry) {
+        return false
+      }
+      if (changes) {
+        Object.assign(item, changes)
+      }
+      reindex(entry)
+      return true
+    },
+    remove: (item) => {
+      const entry = state.entries.get(item)
+      if (!entry) {
+        return false
+      }
+      state.indexes.forEach((index) => removeFromIndex(index, entry))
+      state.entries.delete(item)
+      state.items.splice(state.items.indexOf(item), 1)
+      return true
+    },
+  }
+
+  collectionStates.set(collection, state as CollectionState<unknown>)
+  insertItems(items)
+  return collection
+}
@@ -0,0 +1,456 @@
+import { matchesOperators } from './operators'
+import {
+  isGreaterThan,
+  isGreaterThanOrEqual,
+  isLessThan,
+  isLessThanOrEqual,
+} from './operators/comparison'
+import {
+  isDateGreaterThan,
+  isDateGreaterThanOrEqual,
+  isDateLessThan,
+  isDateLessThanOrEqual,
+} from './operators/date'
+import { arrayIncludes, isCollectedValues } from './operators/array'
+import { getModifiers, isModifier } from './operators/modifiers'
+import {
+  getCollation,
+  getRegexFlags,
+  isCaseSensitive,
+  stringEqualsCollated,
+  stringHasAffix,
+  stringMatchesCollated,
+  testRegExp,
+} from './operators/string'
+import { getCachedRegex } from './cache'
+import { getPathAccessor, matchesFilter, pathExists } from './utils'
+import { matchesExpression } from './expr'
+import { matchesText } from './text'
+import { defaultContext } from './context'
+import { getDateNormalizer } from './schema'
+import { createComparator } from './sort'
+import { getSeekOrder } from './paginate'
+import { validateQuery } from './validate'
+import {
+  getNumericKey,
+  isArray,
+  isBigIntEqual,
+  isContainer,
+  isDate,
+  isEqual,
+  isNumeric,
+  isObject,
+  isRegExp,
+  isString,
+} from './guards'
+import type {
+  Collation,
+  CompiledQuery,
+  ObjectFilter,
+  ObjectQuery,
+  QueryContext,
+  QueryPath,
+} from './types'
+
+type Predicate = (obj: Record<string, unknown>) => boolean
+type ValuePredicate = (value: unknown) => boolean
+
+const compiledQueries = new WeakSet<object>()
+
+/**
+ * Check whether a query was created by compileQuery
+ */
+export function isCompiledQuery<
+  T,
+  S extends QueryPath<T> = never,
+  O extends QueryPath<T> = never,
+>(
+  query: ObjectQuery<T, S, O> | CompiledQuery<T, S, O>
+): query is CompiledQuery<T, S, O> {
+  return compiledQueries.has(query)
+}
+
+function every<V>(
+  predicates: ((value: V) => boolean)[]
+): (value: V) => boolean {
+  switch (predicates.length) {
+    case 0:
+      return () => true
+    case 1:
+      return predicates[0]
+    case 2: {
+      const [first, second] = predicates
+      return (value) => first(value) && second(value)
+    }
+    default:
+      return (value) => {
+        for (let i = 0; i < predicates.length; i++) {
+          if (!predicates[i](value)) {
+            return false
+          }
+        }
+        return true
+      }
+  }
+}
+
+/**
+ * Membership test against a list, with a Set lookup for non-object values
+ */
+function createMembership(list: unknown[]): ValuePredicate {
+  const set = new Set(list.map(getNumericKey))
+  return (value) =>
+    isObject(value) || isContainer(value)
+      ? arrayIncludes(list, value)
+      : set.has(getNumericKey(value))
+}
+
+/**
+ * Compile string equality under a collation, other values compare with `===`
+ */
+function collatedEquals(
+  expected: string,
+  collation: Collation
+): ValuePredicate {
+  return (value) =>
+    value === expected ||
+    (isString(value) && stringEqualsCollated(value, expected, collation))
+}
+
+/**
+ * Compile a single operator with its operand resolved ahead of time.
+ * Operators without a specialised form delegate to matchesOperators.
+ * `modifiers` are the `$caseSensitive`, `$options` and `$collation` of the condition.
+ */
+function compileOperator(
+  operator: string,
+  condition: unknown,
+  context: QueryContext,
+  modifiers: Record<string, unknown> = {}
+): ValuePredicate {
+  switch (operator) {
+    case '$eq': {
+      const collation = getCollation(modifiers, context)
+      if (collation && isString(condition)) {
+        return collatedEquals(condition, collation)
+      }
+      return isObject(condition) || isArray(condition) || isContainer(condition)
+        ? (value) => isEqual(value, condition)
+        : (value) =>
+            value === condition ||
+            (value !== value && condition !== condition) ||
+            isBigIntEqual(value, condition)
+    }
+
+    case '$ne': {
+      const equals = compileOperator('$eq', condition, context, modifiers)
+      return (value) => !equals(value)
+    }
+
+    case '$gt': {
+      const { coerceTypes } = context
+      return (value) =>
+        isGreaterThan(value, condition, coerceTypes) ||
+        isDateGreaterThan(value, condition, coerceTypes)
+    }
+
+    case '$gte': {
+      const { coerceTypes } = context
+      return (value) =>
+        isGreaterThanOrEqual(value, condition, coerceTypes) ||
+        isDateGreaterThanOrEqual(value, condition, coerceTypes)
+    }
+
+    case '$lt': {
+      const { coerceTypes } = context
+      return (value) =>
+        isLessThan(value, condition, coerceTypes) ||
+        isDateLessThan(value, condition, coerceTypes)
+    }
+
+    case '$lte': {
+      const { coerceTypes } = context
+      return (value) =>
+        isLessThanOrEqual(value, condition, coerceTypes) ||
+        isDateLessThanOrEqual(value, condition, coerceTypes)
+    }
+
+    case '$in': {
+      if (!isArray(condition) || condition.length === 0) {
+        return () => false
+      }
+      return createMembership(condition)
+    }
+
+    case '$nin': {
+      if (!isArray(condition) || condition.length === 0) {
+        return () => false
+      }
+      const includes = createMembership(condition)
+      return (value) => !includes(value)
+    }
+
+    case '$startsWith':
+    case '$endsWith': {
+      if (!isString(condition)) {
+        return () => false
+      }
+      const position = operator === '$startsWith' ? 'start' : 'end'
+      const collation = getCollation(modifiers, context)
+      if (collation) {
+        return (value) =>
+          isString(value) &&
+          stringMatchesCollated(value, condition, position, collation)
+      }
+      const caseSensitive = isCaseSensitive(modifiers, context)
+      return (value) =>
+        isString(value) &&
+        stringHasAffix(value, condition, position, caseSensitive)
+    }
+
+    case '$regex': {
+      if (isRegExp(condition)) {
+        return (value) => isString(value) && testRegExp(condition, value)
+      }
+      if (!isString(condition)) {
+        return () => false
+      }
+      const regex = getCachedRegex(condition, getRegexFlags(modifiers, context))
+      return (value) => isString(value) && regex.test(value)
+    }
+
+    case '$not': {
+      const matches = compileOperators(condition, context)
+      return (value) => !matches(value)
+    }
+
+    case '$or':
+    case '$and': {
+      if (!isArray(condition)) {
+        return () => false
+      }
+      const branches = condition.map((branch) =>
+        compileOperators(branch, context)
+      )
+      return operator === '$or'
+        ? (value) => branches.some((matches) => matches(value))
+        : (value) => branches.every((matches) => matches(value))
+    }
+
+    default: {
+      const single = { ...modifiers, [operator]: condition }
+      return (value) => matchesOperators(value, single, context)
+    }
+  }
+}
+
+/**
+ * Compile a field condition (literal or operator object) into a value predicate
+ */
+function compileOperators(
+  operators: unknown,
+  context: QueryContext
+): ValuePredicate {
+  if (typeof operators !== 'object' || operators === null) {
+    return context.collation && isString(operators)
+      ? collatedEquals(operators, context.collation)
+      : isNumeric(operators)
+        ? (value) => value === operators || isBigIntEqual(value, operators)
+        : (value) => value === operators
+  }
+  if (isRegExp(operators)) {
+    return (value) => isString(value) && testRegExp(operators, value)
+  }
+  if (isDate(operators) || isContainer(operators)) {
+    return (value) => isEqual(value, operators)
+  }
+
+  const modifiers = getModifiers(operators as Record<string, unknown>)
+  const predicates: ValuePredicate[] = []
+  for (const [operator, condition] of Object.entries(operators)) {
+    if (isModifier(operator)) {
+      continue
+    }
+    if (operator.charCodeAt(0) === 36) {
+      predicates.push(compileOperator(operator, condition, context, modifiers))
+    } else {
+      // Plain keys match nested properties of object values
+      const nested = compileOperators(condition, context)
+      predicates.push((value) =>
+        isObject(value) ? nested(value[operator]) : value === condition
+      )
+    }
+  }
+  return every(predicates)
+}
+
+/**
+ * Compile the condition on one field path, including `$exists` handling.
+ * Values and operands of date paths in the schema are converted to dates.
+ */
+function compileField(
+  path: string,
+  fieldCondition: unknown,
+  context: QueryContext
+): Predicate {
+  const dates = getDateNormalizer(path, fieldCondition, context)
+  const condition = dates ? dates.condition : fieldCondition
+  const read = getPathAccessor(path)
+  const accessor = dates
+    ? (obj: Record<string, unknown>) => dates.normalize(read(obj))
+    : read
+
+  if (isObject(condition) && typeof condition.$exists === 'boolean') {
+    const shouldExist = condition.$exists
+    const rest = { ...condition }
+    delete rest.$exists
+
+    const exists: Predicate = (obj) => pathExists(obj, path) === shouldExist
+    if (Object.keys(rest).length === 0) {
+      return exists
+    }
+    const matches = compileValue(path, rest, context)
+    return (obj) => exists(obj) && matches(accessor(obj))
+  }
+
+  const matches = compileValue(path, condition, context)
+  return (obj) => matches(accessor(obj))
+}
+
+/**
+ * Compile the condition on the value at a path. Values collected through
+ * arrays (dot paths only) are matched by matchesOperators.
+ */
+function compileValue(
+  path: string,
+  condition: unknown,
+  context: QueryContext
+): ValuePredicate {
+  const matches = compileOperators(condition, context)
+  if (path.indexOf('.') === -1) {
+    return matches
+  }
+  return (value) =>
+    isCollectedValues(value)
+      ? matchesOperators(value, condition, context)
+      : matches(value)
+}
+
+/**
+ * Compile a filter object into a predicate
+ */
+function compileFilter(filter: unknown, context: QueryContext): Predicate {
+  if (!isObject(filter)) {
+    return () => false
+  }
+
+  const compileNested = (nested: unknown) => compileFilter(nested, context)
+  const predicates: Predicate[] = []
+
+  for (const key in filter) {
+    const condition = filter[key]
+    switch (key) {
+      case '$and':
+        if (isArray(condition)) {
+          predicates.push(every(condition.map(compileNested)))
+        }
+        break
+      case '$or':
+        if (isArray(condition)) {
+          const branches = condition.map(compileNested)
+          predicates.push((obj) => branches.some((branch) => branch(obj)))
+        }
+        break
+      case '$not':
+        if (isObject(condition)) {
+          const negated = compileFilter(condition, context)
+          predicates.push((obj) => !negated(obj))
+        }
+        break
+      case '$nor':
+        if (isArray(condition)) {
+          const branches = condition.map(compileNested)
+          predicates.push((obj) => !branches.some((branch) => branch(obj)))
+        }
+        break
+      case '$expr':
+        predicates.push((obj) => matchesExpression(obj, condition))
+        break
+      case '$text':
+        predicates.push((obj) => matchesText(obj, condition))
+        break
+      default: {
+        const operator = context.logicalOperators.get(key)
+        if (operator) {
+          predicates.push((obj) =>
+            operator.evaluate(obj, condition, (nested) =>
+              matchesFilter(obj, nested as ObjectFilter<typeof obj>, context)
+            )
+          )
+        } else if (condition !== undefined) {
+          predicates.push(compileField(key, condition, context))
+        }
+      }
+    }
+  }
+
+  const matches = every(predicates)
+  return (obj) => isObject(obj) && matches(obj)
+}
+
+/**
+ * Compile a where clause (filter object or array of filters) into a predicate
+ */
+export function compileWhere<T>(
+  where: ObjectFilter<T> | ObjectFilter<T>[] = {},
+  context: QueryContext = defaultContext
+): (obj: T) => boolean {
+  if (isArray(where)) {
+    return every(where.map((filter) => compileFilter(filter, context))) as (
+      obj: T
+    ) => boolean
+  }
+  // Empty or invalid where clauses match everything
+  return isObject(where)
+    ? (compileFilter(where, context) as (obj: T) => boolean)
+    : () => true
+}
+
+/**
+ * Compile a query once for repeated execution
+ *
+ * Path accessors, regexes, `$in` lookups and operator dispatch are resolved
+ * ahead of time. The result can be passed to findMany, findFirst, findPage and groupBy.
+ * Queries with `strict: true` are validated once here.
+ *
+ * @param query - Query configuration to compile
+ * @param context - Operators of an engine (see createEngine), built-in operators by default
+ * @returns Compiled query with a `matches` predicate and `compare` comparator
+ *
+ * @example
+ * const activeAdmins = compileQuery<User>({
+ *   where: { role: "admin", "settings.active": true },
+ *   orderBy: { name: "asc" },
+ * })
+ * findMany(users, activeAdmins)
+ */
+export function compileQuery<
+  T extends object,
+  S extends QueryPath<T> = never,
+  O extends QueryPath<T> = never,
+>(
+  query: ObjectQuery<T, S, O> = {},
+  context: QueryContext = defaultContext
+): CompiledQuery<T, S, O> {
+  if (query.strict) {
+    validateQuery(query, context)
+  }
+
+  const compiled: CompiledQuery<T, S, O> = {
+    query,
+    matches: compileWhere(query.where, context),
+    compare: createComparator<T>(getSeekOrder(query), query.where, context),
+  }
+  compiledQueries.add(compiled)
+  return compiled
+}
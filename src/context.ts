@@ -0,0 +1,11 @@
+import type { QueryContext } from './types'
+
+/**
+ * Context of the top-level query functions: built-in operators only,
+ * case-insensitive string operators
+ */
+export const defaultContext: QueryContext = {
+  operators: new Map(),
+  logicalOperators: new Map(),
+  caseSensitive: false,
+}
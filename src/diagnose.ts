@@ -0,0 +1,336 @@
+import { normalizeWhere } from './explain'
+import { matchesOperators } from './operators'
+import { getModifiers, isModifier } from './operators/modifiers'
+import { getValueByPath, matchesFilter, pathExists } from './utils'
+import { defaultContext } from './context'
+import { getDateNormalizer } from './schema'
+import {
+  isArray,
+  isContainer,
+  isDate,
+  isObject,
+  isRegExp,
+  isString,
+} from './guards'
+import type {
+  DiagnosisNode,
+  FilterPlanNode,
+  MatchDiagnosis,
+  ObjectFilter,
+  QueryContext,
+} from './types'
+
+/**
+ * Short readable representation of a value
+ */
+function formatValue(value: unknown): string {
+  if (isString(value)) {
+    return JSON.stringify(value)
+  }
+  if (isDate(value)) {
+    return isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString()
+  }
+  if (isRegExp(value)) {
+    return String(value)
+  }
+  if (isObject(value) || isArray(value)) {
+    try {
+      return JSON.stringify(value)
+    } catch {
+      return String(value)
+    }
+  }
+  return String(value)
+}
+
+/**
+ * Diagnose each operator of a field condition against a resolved value.
+ * Plain keys match nested properties, like matchesOperators.
+ */
+function diagnoseOperators(
+  path: string,
+  value: unknown,
+  condition: unknown,
+  context: QueryContext
+): DiagnosisNode[] {
+  if (
+    typeof condition !== 'object' ||
+    condition === null ||
+    isDate(condition) ||
+    isContainer(condition)
+  ) {
+    return [
+      {
+        type: 'operator',
+        path,
+        operator: '$eq',
+        value,
+        expected: condition,
+        matched: matchesOperators(value, condition, context),
+      },
+    ]
+  }
+
+  if (isRegExp(condition)) {
+    return [
+      {
+        type: 'operator',
+        path,
+        operator: '$regex',
+        value,
+        expected: condition,
+        matched: matchesOperators(value, condition, context),
+      },
+    ]
+  }
+
+  const modifiers = getModifiers(condition as Record<string, unknown>)
+  const nodes: DiagnosisNode[] = []
+  for (const [key, expected] of Object.entries(condition)) {
+    if (isModifier(key)) {
+      continue
+    }
+    if (key.charCodeAt(0) === 36) {
+      nodes.push({
+        type: 'operator',
+        path,
+        operator: key,
+        value,
+        expected,
+        matched: matchesOperators(
+          value,
+          { ...modifiers, [key]: expected },
+          context
+        ),
+      })
+    } else if (isObject(value)) {
+      const nested = value[key]
+      const children = diagnoseOperators(
+        `${path}.${key}`,
+        nested,
+        expected,
+        context
+      )
+      nodes.push({
+        type: 'field',
+        path: `${path}.${key}`,
+        value: nested,
+        expected,
+        matched: children.every((child) => child.matched),
+        children,
+      })
+    } else {
+      nodes.push({
+        type: 'operator',
+        path: `${path}.${key}`,
+        operator: '$eq',
+        value: undefined,
+        expected,
+        matched: value === expected,
+      })
+    }
+  }
+  return nodes
+}
+
+/**
+ * Diagnose a top-level field condition, including `$exists` handling
+ */
+function diagnoseField(
+  obj: Record<string, unknown>,
+  path: string,
+  fieldCondition: unknown,
+  context: QueryContext
+): DiagnosisNode {
+  // Date paths of the schema are diagnosed with the values compared as dates
+  const dates = getDateNormalizer(path, fieldCondition, context)
+  const condition = dates ? dates.condition : fieldCondition
+  const stored = getValueByPath(obj, path)
+  const value = dates ? dates.normalize(stored) : stored
+  let children: DiagnosisNode[]
+
+  if (isObject(condition) && typeof condition.$exists === 'boolean') {
+    const { $exists, ...rest } = condition
+    children = [
+      {
+        type: 'operator',
+        path,
+        operator: '$exists',
+        value,
+        expected: $exists,
+        matched: pathExists(obj, path) === $exists,
+      },
+      ...diagnoseOperators(path, value, rest, context),
+    ]
+  } else {
+    children = diagnoseOperators(path, value, condition, context)
+  }
+
+  return {
+    type: 'field',
+    path,
+    value,
+    expected: condition,
+    matched: children.every((child) => child.matched),
+    children,
+  }
+}
+
+function diagnoseNode(
+  node: FilterPlanNode,
+  obj: Record<string, unknown>,
+  context: QueryContext
+): DiagnosisNode {
+  switch (node.type) {
+    case 'field':
+      return diagnoseField(obj, node.path ?? '', node.condition, context)
+    case 'operator':
+      return {
+        type: 'operator',
+        operator: node.operator,
+        expected: node.condition,
+        matched: matchesFilter(
+          obj,
+          { [node.operator ?? '']: node.condition },
+          context
+        ),
+      }
+    case 'invalid':
+      return { type: 'invalid', matched: false }
+  }
+
+  const children = (node.children ?? []).map((child) =>
+    diagnoseNode(child, obj, context)
+  )
+  const anyMatched = children.some((child) => child.matched)
+  const matched =
+    node.type === 'and'
+      ? children.every((child) => child.matched)
+      : node.type === 'or'
+        ? anyMatched
+        : !anyMatched
+
+  return { type: node.type, matched, children }
+}
+
+/**
+ * First leaf that made a node fail. `$not` and `$nor` fail because a child
+ * matched, so the node itself is reported.
+ */
+function findFailure(node: DiagnosisNode): DiagnosisNode | undefined {
+  if (node.matched) {
+    return undefined
+  }
+  if (node.type === 'and' || node.type === 'or' || node.type === 'field') {
+    for (const child of node.children ?? []) {
+      const failure = findFailure(child)
+      if (failure) {
+        return failure
+      }
+    }
+  }
+  return node
+}
+
+function describeFailure(node: DiagnosisNode): string {
+  switch (node.type) {
+    case 'operator': {
+      if (node.path === undefined) {
+        return `${node.operator} ${formatValue(node.expected)} did not match`
+      }
+      if (node.operator === '$exists') {
+        return node.expected
+          ? `${node.path} does not exist`
+          : `${node.path} exists (${formatValue(node.value)}), expected it not to`
+      }
+      const expected =
+        node.operator === '$eq'
+          ? formatValue(node.expected)
+          : `${node.operator} ${formatValue(node.expected)}`
+      return `${node.path} is ${formatValue(node.value)}, expected ${expected}`
+    }
+    case 'not':
+      return '$not: the negated condition matched'
+    case 'nor': {
+      const branch = (node.children ?? []).findIndex((child) => child.matched)
+      return `$nor: condition ${branch + 1} matched`
+    }
+    case 'or':
+      return '$or: no condition matched'
+    case 'invalid':
+      return !('value' in node)
+        ? 'filter is not an object'
+        : `${formatValue(node.value)} is not an object`
+    default:
+      return `${node.path ?? node.type} did not match`
+  }
+}
+
+/**
+ * Explain why an object does or does not match a filter
+ *
+ * Every condition is evaluated (without short-circuiting) so the tree shows the
+ * outcome of each logical node, field and operator with the resolved value.
+ *
+ * @param object - Object to check
+ * @param filter - Filter (or array of filters) as used in `where`
+ * @param context - Operators of an engine (see createEngine), built-in operators by default
+ * @returns Whether the object matches, the evaluated tree and the first failing leaf
+ *
+ * @example
+ * const { matched, reason } = diagnose(user, {
+ *   status: "active",
+ *   "profile.age": { $gte: 18 },
+ * })
+ * // matched: false, reason: 'profile.age is 16, expected $gte 18'
+ */
+export function diagnose<T extends object>(
+  object: T,
+  filter: ObjectFilter<T> | ObjectFilter<T>[],
+  context: QueryContext = defaultContext
+): MatchDiagnosis {
+  const tree: DiagnosisNode = isObject(object)
+    ? diagnoseNode(normalizeWhere(filter ?? {}, context), object, context)
+    : { type: 'invalid', matched: false, value: object }
+
+  const failure = findFailure(tree)
+  return failure
+    ? { matched: false, tree, failure, reason: describeFailure(failure) }
+    : { matched: true, tree }
+}
+
+function formatNode(node: DiagnosisNode): string {
+  switch (node.type) {
+    case 'field':
+      return `${node.path}: ${formatValue(node.value)}`
+    case 'operator':
+      return `${node.operator} ${formatValue(node.expected)}`
+    case 'invalid':
+      return 'invalid'
+    default:
+      return `$${node.type}`
+  }
+}
+
+/**
+ * Render a diagnosis as an indented tree, one node per line
+ *
+ * @example
+ * console.log(formatDiagnosis(diagnose(user, filter)))
+ * // ✗ $and
+ * //   ✓ status: "active"
+ * //     ✓ $eq "active"
+ * //   ✗ profile.age: 16
+ * //     ✗ $gte 18
+ */
+export function formatDiagnosis(diagnosis: MatchDiagnosis): string {
+  const lines: string[] = []
+  const visit = (node: DiagnosisNode, depth: number) => {
+    lines.push(
+      `${'  '.repeat(depth)}${node.matched ? '✓' : '✗'} ${formatNode(node)}`
+    )
+    node.children?.forEach((child) => visit(child, depth + 1))
+  }
+  visit(diagnosis.tree, 0)
+  return lines.join('\n')
+}
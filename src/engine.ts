@@ -0,0 +1,133 @@
+import { findMany, findFirst, findPage } from './query'
+import { groupBy } from './group'
+import { aggregate } from './aggregate'
+import { compileQuery } from './compile'
+import { explain } from './explain'
+import { diagnose } from './diagnose'
+import { isBuiltinOperator, validateQuery } from './validate'
+import type {
+  EngineOptions,
+  LogicalOperatorDefinition,
+  OperatorDefinition,
+  QueryContext,
+  QueryPlugin,
+} from './types'
+
+/**
+ * Query functions bound to the operators registered with an engine
+ */
+export type QueryEngine = QueryContext & {
+  /** Registered plugins, in registration order */
+  readonly plugins: readonly QueryPlugin[]
+  findMany: typeof findMany
+  findFirst: typeof findFirst
+  findPage: typeof findPage
+  groupBy: typeof groupBy
+  aggregate: typeof aggregate
+  compileQuery: typeof compileQuery
+  explain: typeof explain
+  diagnose: typeof diagnose
+  validateQuery: typeof validateQuery
+  /** Create a new engine with additional plugins, leaving this one unchanged */
+  extend: (...plugins: QueryPlugin[]) => QueryEngine
+}
+
+/**
+ * Add the operators of a plugin to a registry, rejecting names that are not
+ * `$`-prefixed, built in, or already registered by another plugin
+ */
+function registerOperators<D>(
+  plugin: QueryPlugin,
+  definitions: Record<string, D> | undefined,
+  registry: Map<string, D>,
+  owners: Map<string, string>
+): void {
+  for (const [name, definition] of Object.entries(definitions ?? {})) {
+    if (name.charCodeAt(0) !== 36) {
+      throw new Error(
+        `Operator "${name}" of plugin "${plugin.name}" must start with "$"`
+      )
+    }
+    if (isBuiltinOperator(name)) {
+      throw new Error(
+        `Operator "${name}" of plugin "${plugin.name}" is a built-in operator`
+      )
+    }
+    const owner = owners.get(name)
+    if (owner !== undefined) {
+      throw new Error(
+        `Operator "${name}" of plugin "${plugin.name}" is already registered by plugin "${owner}"`
+      )
+    }
+    owners.set(name, plugin.name)
+    registry.set(name, definition)
+  }
+}
+
+/**
+ * Create a query engine with custom operators
+ *
+ * Operators are registered per engine: the top-level query functions and other
+ * engines are not affected. Engine methods take the same arguments as the
+ * top-level functions. The engine can also be passed as the `context` argument
+ * of the top-level functions.
+ *
+ * @param options - Plugins with field operators and top-level logical operators,
+ * the default case sensitivity and collation of string operators, whether
+ * comparisons coerce numeric and ISO date strings, the time zone and current
+ * time of date operators, and the schema of date paths
+ * @returns Engine with findMany, findFirst, findPage, groupBy, aggregate,
+ * compileQuery, explain, diagnose and validateQuery
+ * @throws Error when an operator name is not `$`-prefixed, built in, or registered twice
+ *
+ * @example
+ * const engine = createEngine({
+ *   plugins: [
+ *     {
+ *       name: "semver",
+ *       operators: {
+ *         $semver: {
+ *           evaluate: (value, range) => satisfies(String(value), String(range)),
+ *           validate: (range) => (validRange(range) ? undefined : "a semver range"),
+ *         },
+ *       },
+ *     },
+ *   ],
+ * })
+ * engine.findMany(packages, { where: { version: { $semver: "^2.0.0" } } })
+ */
+export function createEngine(options: EngineOptions = {}): QueryEngine {
+  const plugins = [...(options.plugins ?? [])]
+  const operators = new Map<string, OperatorDefinition>()
+  const logicalOperators = new Map<string, LogicalOperatorDefinition>()
+  const owners = new Map<string, string>()
+
+  for (const plugin of plugins) {
+    registerOperators(plugin, plugin.operators, operators, owners)
+    registerOperators(plugin, plugin.logicalOperators, logicalOperators, owners)
+  }
+
+  const engine: QueryEngine = {
+    operators,
+    logicalOperators,
+    caseSensitive: options.caseSensitive ?? false,
+    collation: options.collation,
+    coerceTypes: options.coerceTypes ?? false,
+    timeZone: options.timeZone,
+    now: options.now,
+    schema: options.schema,
+    plugins,
+    findMany: (objects, query) => findMany(objects, query, engine),
+    findFirst: (objects, query) => findFirst(objects, query, engine),
+    findPage: (objects, query) => findPage(objects, query, engine),
+    groupBy: (objects, field, query) => groupBy(objects, field, query, engine),
+    aggregate: (objects, query) => aggregate(objects, query, engine),
+    compileQuery: (query) => compileQuery(query, engine),
+    explain: (objects, query) => explain(objects, query, engine),
+    diagnose: (object, filter) => diagnose(object, filter, engine),
+    validateQuery: (query) => validateQuery(query, engine),
+    extend: (...more) =>
+      createEngine({ ...options, plugins: [...plugins, ...more] }),
+  }
+  return engine
+}
@@ -0,0 +1,78 @@
+/**
+ * Format path segments inside a query, e.g. `where.$or[1]["profile.age"].$gte`
+ */
+export function formatQueryPath(
+  segments: readonly (string | number)[]
+): string {
+  return segments
+    .map((segment, i) => {
+      if (typeof segment === 'number') {
+        return `[${segment}]`
+      }
+      if (/^[$A-Za-z_][$\w]*$/.test(segment)) {
+        return i === 0 ? segment : `.${segment}`
+      }
+      return `[${JSON.stringify(segment)}]`
+    })
+    .join('')
+}
+
+/**
+ * Base class of errors thrown for invalid queries
+ */
+export class QueryError extends Error {
+  /** Location of the problem inside the query, e.g. `where.$or[1].age.$gte` */
+  readonly path: string
+
+  constructor(message: string, path: string) {
+    super(path ? `${message} at ${path}` : message)
+    this.name = 'QueryError'
+    this.path = path
+  }
+}
+
+/**
+ * A `$` key that is not a known operator
+ */
+export class UnknownOperatorError extends QueryError {
+  readonly operator: string
+
+  constructor(operator: string, path: string) {
+    super(`Unknown operator ${JSON.stringify(operator)}`, path)
+    this.name = 'UnknownOperatorError'
+    this.operator = operator
+  }
+}
+
+/**
+ * An operator whose operand has the wrong type or shape
+ */
+export class InvalidOperandError extends QueryError {
+  readonly operator: string
+  readonly operand: unknown
+
+  constructor(
+    operator: string,
+    operand: unknown,
+    expected: string,
+    path: string
+  ) {
+    super(`Invalid operand for ${operator}: expected ${expected}`, path)
+    this.name = 'InvalidOperandError'
+    this.operator = operator
+    this.operand = operand
+  }
+}
+
+/**
+ * A field path that can never resolve (empty segments, surrounding whitespace)
+ */
+export class InvalidPathError extends QueryError {
+  readonly field: string
+
+  constructor(field: string, path: string) {
+    super(`Invalid field path ${JSON.stringify(field)}`, path)
+    this.name = 'InvalidPathError'
+    this.field = field
+  }
+}
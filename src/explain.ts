@@ -0,0 +1,287 @@
+import { isPrimitiveEquality } from './query'
+import { isCompiledQuery } from './compile'
+import {
+  getCollectionIndexes,
+  isIndexedCollection,
+  selectCandidates,
+} from './collection'
+import { applySorting } from './sort'
+import { applyPagination, getSeekOrder } from './paginate'
+import { matchesField, matchesFilter } from './utils'
+import { defaultContext } from './context'
+import { validateQuery } from './validate'
+import { isArray, isObject } from './guards'
+import type {
+  CompiledQuery,
+  FilterPlanNode,
+  ObjectQuery,
+  QueryContext,
+  QueryPath,
+  QueryPlan,
+  QuerySource,
+} from './types'
+
+function createNode(
+  type: FilterPlanNode['type'],
+  details: Pick<
+    FilterPlanNode,
+    'path' | 'operator' | 'condition' | 'children'
+  > = {}
+): FilterPlanNode {
+  return {
+    type,
+    ...details,
+    evaluations: 0,
+    matches: 0,
+    selectivity: 0,
+    shortCircuits: 0,
+  }
+}
+
+/**
+ * Normalize a filter object into a tree, children in the order matchesFilter
+ * evaluates them: `$and`, `$or`, `$not`, `$nor`, `$expr`, `$text`, plugin
+ * logical operators, then field conditions
+ */
+function normalizeFilter(
+  filter: unknown,
+  context: QueryContext
+): FilterPlanNode {
+  if (!isObject(filter)) {
+    return createNode('invalid')
+  }
+
+  const normalizeChild = (child: unknown) => normalizeNested(child, context)
+  const children: FilterPlanNode[] = []
+
+  if (isArray(filter.$and)) {
+    children.push(
+      createNode('and', { children: filter.$and.map(normalizeChild) })
+    )
+  }
+  if (isArray(filter.$or)) {
+    children.push(
+      createNode('or', { children: filter.$or.map(normalizeChild) })
+    )
+  }
+  if (isObject(filter.$not)) {
+    children.push(
+      createNode('not', { children: [normalizeChild(filter.$not)] })
+    )
+  }
+  if (isArray(filter.$nor)) {
+    children.push(
+      createNode('nor', { children: filter.$nor.map(normalizeChild) })
+    )
+  }
+
+  if ('$expr' in filter) {
+    children.push(
+      createNode('operator', { operator: '$expr', condition: filter.$expr })
+    )
+  }
+  if ('$text' in filter) {
+    children.push(
+      createNode('operator', { operator: '$text', condition: filter.$text })
+    )
+  }
+  for (const key in filter) {
+    if (context.logicalOperators.has(key)) {
+      children.push(
+        createNode('operator', { operator: key, condition: filter[key] })
+      )
+    }
+  }
+
+  for (const key in filter) {
+    if (
+      key === '$and' ||
+      key === '$or' ||
+      key === '$not' ||
+      key === '$nor' ||
+      key === '$expr' ||
+      key === '$text' ||
+      context.logicalOperators.has(key)
+    ) {
+      continue
+    }
+    if (filter[key] !== undefined) {
+      children.push(createNode('field', { path: key, condition: filter[key] }))
+    }
+  }
+
+  return createNode('and', { children })
+}
+
+/**
+ * Normalize a nested filter, collapsing filters with a single condition
+ */
+function normalizeNested(
+  filter: unknown,
+  context: QueryContext
+): FilterPlanNode {
+  const node = normalizeFilter(filter, context)
+  return node.type === 'and' && node.children?.length === 1
+    ? node.children[0]
+    : node
+}
+
+/**
+ * Normalize a where clause (filter or array of filters) into a filter tree
+ */
+export function normalizeWhere(
+  where: unknown,
+  context: QueryContext = defaultContext
+): FilterPlanNode {
+  if (isArray(where)) {
+    return createNode('and', {
+      children: where.map((filter) => normalizeNested(filter, context)),
+    })
+  }
+  // Invalid where clauses match everything, like an empty filter
+  return isObject(where) ? normalizeFilter(where, context) : createNode('and')
+}
+
+/**
+ * Evaluate children until one returns `stopOn`, counting early stops
+ */
+function evaluateChildren(
+  node: FilterPlanNode,
+  obj: Record<string, unknown>,
+  stopOn: boolean,
+  context: QueryContext
+): boolean {
+  const children = node.children ?? []
+  for (let i = 0; i < children.length; i++) {
+    if (evaluate(children[i], obj, context) === stopOn) {
+      if (i < children.length - 1) {
+        node.shortCircuits++
+      }
+      return true
+    }
+  }
+  return false
+}
+
+function evaluate(
+  node: FilterPlanNode,
+  obj: Record<string, unknown>,
+  context: QueryContext
+): boolean {
+  node.evaluations++
+
+  let matched: boolean
+  switch (node.type) {
+    case 'field':
+      matched = matchesField(obj, node.path ?? '', node.condition, context)
+      break
+    case 'operator':
+      matched = matchesFilter(
+        obj,
+        { [node.operator ?? '']: node.condition },
+        context
+      )
+      break
+    case 'and':
+      matched = !evaluateChildren(node, obj, false, context)
+      break
+    case 'or':
+      matched = evaluateChildren(node, obj, true, context)
+      break
+    case 'nor':
+      matched = !evaluateChildren(node, obj, true, context)
+      break
+    case 'not':
+      matched = !evaluate((node.children ?? [])[0], obj, context)
+      break
+    default:
+      matched = false
+  }
+
+  if (matched) {
+    node.matches++
+  }
+  return matched
+}
+
+function setSelectivity(node: FilterPlanNode): void {
+  node.selectivity =
+    node.evaluations === 0 ? 0 : node.matches / node.evaluations
+  node.children?.forEach(setSelectivity)
+}
+
+/**
+ * Explain how a query is executed
+ *
+ * Runs the query and reports the normalized filter tree with evaluation counts,
+ * selectivity and short-circuits per node, the fast path taken (if any),
+ * and which collection indexes narrowed the objects to scan.
+ *
+ * @param objects - Array of objects or indexed collection to search through
+ * @param query - Query configuration, plain or prepared with compileQuery
+ * @param context - Operators of an engine (see createEngine), built-in operators by default
+ * @returns Query plan with statistics
+ *
+ * @example
+ * const plan = explain(products, {
+ *   where: { $or: [{ category: "books" }, { price: { $lt: 10 } }] },
+ * })
+ * plan.filter.children[0].children.map((branch) => branch.matches)
+ */
+export function explain<
+  T extends object,
+  S extends QueryPath<T> = never,
+  O extends QueryPath<T> = never,
+>(
+  objects: QuerySource<T>,
+  query: ObjectQuery<T, S, O> | CompiledQuery<T, S, O> = {},
+  context: QueryContext = defaultContext
+): QueryPlan {
+  const compiled = isCompiledQuery(query)
+  const config = compiled ? query.query : query
+  if (!compiled && config.strict) {
+    validateQuery(config, context)
+  }
+  const collection = isIndexedCollection(objects) ? objects : undefined
+
+  const { items: candidates, indexes: used } = collection
+    ? selectCandidates(collection, config.where, context)
+    : { items: objects as T[], indexes: [] as string[] }
+
+  const filter = normalizeWhere(config.where ?? {}, context)
+  const matched: T[] = []
+  for (const obj of candidates ?? []) {
+    if (!isObject(obj)) {
+      // matchesFilter rejects non-objects before evaluating any condition
+      filter.evaluations++
+    } else if (evaluate(filter, obj, context)) {
+      matched.push(obj)
+    }
+  }
+  setSelectivity(filter)
+
+  const returned = applyPagination(
+    applySorting(matched, getSeekOrder(config), config.where, context),
+    config,
+    context
+  )
+
+  return {
+    filter,
+    fastPath: compiled
+      ? 'compiled'
+      : isPrimitiveEquality(config.where, context)
+        ? 'primitive-equality'
+        : undefined,
+    indexes: collection
+      ? getCollectionIndexes(collection).map((index) => ({
+          ...index,
+          used: used.includes(index.path),
+        }))
+      : [],
+    total: collection ? collection.size : (candidates?.length ?? 0),
+    scanned: candidates?.length ?? 0,
+    matched: matched.length,
+    returned: returned.length,
+  }
+}
@@ -0,0 +1,182 @@
+import {
+  isGreaterThan,
+  isGreaterThanOrEqual,
+  isLessThan,
+  isLessThanOrEqual,
+} from './operators/comparison'
+import {
+  isDateGreaterThan,
+  isDateGreaterThanOrEqual,
+  isDateLessThan,
+  isDateLessThanOrEqual,
+} from './operators/date'
+import { getPathAccessor } from './utils'
+import {
+  isArray,
+  isDate,
+  isEqual,
+  isNumber,
+  isObject,
+  isRegExp,
+  isString,
+} from './guards'
+
+type Evaluator = (obj: Record<string, unknown>) => unknown
+
+/**
+ * Operator of an `$expr` expression with the number of arguments it takes
+ */
+type ExpressionOperator = {
+  minArgs: number
+  maxArgs: number
+  apply: (args: unknown[]) => unknown
+}
+
+/**
+ * Sum numbers. With one date among the arguments, the numbers are added as milliseconds.
+ */
+function add(args: unknown[]): unknown {
+  let sum = 0
+  let date: Date | undefined
+  for (const arg of args) {
+    if (isNumber(arg)) {
+      sum += arg
+    } else if (isDate(arg) && !date) {
+      date = arg
+    } else {
+      return null
+    }
+  }
+  return date ? new Date(date.getTime() + sum) : sum
+}
+
+/**
+ * Difference of two numbers, of two dates (in milliseconds), or a date minus milliseconds
+ */
+function subtract([a, b]: unknown[]): unknown {
+  if (isNumber(a) && isNumber(b)) {
+    return a - b
+  }
+  if (isDate(a) && isDate(b)) {
+    return a.getTime() - b.getTime()
+  }
+  if (isDate(a) && isNumber(b)) {
+    return new Date(a.getTime() - b)
+  }
+  return null
+}
+
+function multiply(args: unknown[]): unknown {
+  let product = 1
+  for (const arg of args) {
+    if (!isNumber(arg)) {
+      return null
+    }
+    product *= arg
+  }
+  return product
+}
+
+function divide([a, b]: unknown[]): unknown {
+  return isNumber(a) && isNumber(b) && b !== 0 ? a / b : null
+}
+
+function compare(
+  compareValues: (a: unknown, b: unknown) => boolean,
+  compareDates: (a: unknown, b: unknown) => boolean
+): ExpressionOperator {
+  return {
+    minArgs: 2,
+    maxArgs: 2,
+    apply: ([a, b]) => compareValues(a, b) || compareDates(a, b),
+  }
+}
+
+/**
+ * Operators available inside `$expr`, besides `$literal`
+ */
+export const expressionOperators: Record<string, ExpressionOperator> = {
+  $add: { minArgs: 2, maxArgs: Infinity, apply: add },
+  $subtract: { minArgs: 2, maxArgs: 2, apply: subtract },
+  $multiply: { minArgs: 2, maxArgs: Infinity, apply: multiply },
+  $divide: { minArgs: 2, maxArgs: 2, apply: divide },
+  $eq: { minArgs: 2, maxArgs: 2, apply: ([a, b]) => isEqual(a, b) },
+  $ne: { minArgs: 2, maxArgs: 2, apply: ([a, b]) => !isEqual(a, b) },
+  $gt: compare(isGreaterThan, isDateGreaterThan),
+  $gte: compare(isGreaterThanOrEqual, isDateGreaterThanOrEqual),
+  $lt: compare(isLessThan, isDateLessThan),
+  $lte: compare(isLessThanOrEqual, isDateLessThanOrEqual),
+}
+
+/**
+ * Check whether an expression is a `"$path"` reference to a field of the object
+ */
+export function isFieldReference(expression: unknown): expression is string {
+  return isString(expression) && expression.charCodeAt(0) === 36
+}
+
+/**
+ * Get the operator of an expression object with a single `$` key, if any
+ */
+export function getExpressionOperator(expression: unknown): string | undefined {
+  if (!isObject(expression) || isDate(expression) || isRegExp(expression)) {
+    return undefined
+  }
+  const keys = Object.keys(expression)
+  return keys.length === 1 && keys[0].charCodeAt(0) === 36 ? keys[0] : undefined
+}
+
+/**
+ * Compile an expression into a function of the object it is evaluated against.
+ * Unknown operators and invalid arguments evaluate to null.
+ */
+function compileExpression(expression: unknown): Evaluator {
+  if (isFieldReference(expression)) {
+    return getPathAccessor(expression.slice(1))
+  }
+
+  const operator = getExpressionOperator(expression)
+  if (operator === undefined) {
+    // Other values (including arrays and objects) are literals
+    return () => expression
+  }
+
+  const operand = (expression as Record<string, unknown>)[operator]
+  if (operator === '$literal') {
+    return () => operand
+  }
+  const definition = expressionOperators[operator]
+  if (
+    !definition ||
+    !isArray(operand) ||
+    operand.length < definition.minArgs ||
+    operand.length > definition.maxArgs
+  ) {
+    return () => null
+  }
+
+  const args = operand.map(compileExpression)
+  return (obj) => definition.apply(args.map((arg) => arg(obj)))
+}
+
+const compiledExpressions = new WeakMap<object, Evaluator>()
+
+/**
+ * Evaluate an `$expr` expression against an object.
+ * The object matches when the expression evaluates to a truthy value.
+ */
+export function matchesExpression(
+  obj: Record<string, unknown>,
+  expression: unknown
+): boolean {
+  if (!isObject(expression)) {
+    return Boolean(compileExpression(expression)(obj))
+  }
+
+  let evaluate = compiledExpressions.get(expression)
+  if (!evaluate) {
+    evaluate = compileExpression(expression)
+    compiledExpressions.set(expression, evaluate)
+  }
+  return Boolean(evaluate(obj))
+}
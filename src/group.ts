@@ -0,0 +1,359 @@
+import { queryObjects } from './query'
+import { computeAggregates } from './aggregate'
+import { matchesOperators } from './operators'
+import { compareValues } from './utils'
+import { createKeyResolver } from './buckets'
+import { getSortNormalizer } from './sort'
+import { isCompiledQuery } from './compile'
+import { defaultContext } from './context'
+import type { GroupKeyResolver } from './buckets'
+import { isArray, isDate, isNullOrUndefined, isObject } from './guards'
+import type {
+  AggregateResult,
+  Collection,
+  CompiledQuery,
+  GroupByField,
+  GroupByQuery,
+  GroupKeySpec,
+  GroupKeyValue,
+  GroupHaving,
+  GroupOrderBy,
+  QueryContext,
+  QueryPath,
+  QuerySource,
+  SortDirection,
+} from './types'
+
+type Group<T> = {
+  key: unknown
+  name: string
+  items: T[]
+}
+
+type GroupSortCriterion<T> = {
+  value: (group: Group<T>) => unknown
+  direction: SortDirection
+}
+
+/**
+ * Identity of a group key value that keeps types apart (1 vs '1', null vs undefined)
+ */
+function getKeyId(value: unknown): string {
+  if (isDate(value)) {
+    return `date:${value.getTime()}`
+  }
+  if (isObject(value) || isArray(value)) {
+    try {
+      return `object:${JSON.stringify(value)}`
+    } catch {
+      return `object:${String(value)}`
+    }
+  }
+  return `${typeof value}:${String(value)}`
+}
+
+/**
+ * Bucket objects by one or more keys, in the order keys first appear.
+ * Composite groups are keyed by the tuple of values.
+ */
+function collectGroups<T extends object>(
+  items: T[],
+  resolvers: GroupKeyResolver<T>[],
+  composite: boolean
+): Group<T>[] {
+  const groups = new Map<string, Group<T>>()
+
+  for (const obj of items) {
+    const values = resolvers.map((resolver) => resolver.resolve(obj))
+    const id = values.map(getKeyId).join('\u0000')
+
+    let group = groups.get(id)
+    if (!group) {
+      group = {
+        key: composite ? values : values[0],
+        name: values.map((value, i) => resolvers[i].name(value)).join(' / '),
+        items: [],
+      }
+      groups.set(id, group)
+    }
+    group.items.push(obj)
+  }
+
+  return Array.from(groups.values())
+}
+
+/**
+ * Add empty groups for missing buckets, in bucket order.
+ * Groups outside the bucket range (e.g. a null key) are kept at the end.
+ */
+function fillEmptyGroups<T extends object>(
+  groups: Group<T>[],
+  resolver: GroupKeyResolver<T>
+): Group<T>[] {
+  if (!resolver.fill) {
+    return groups
+  }
+
+  const byId = new Map(groups.map((group) => [getKeyId(group.key), group]))
+  const filled = resolver.fill(groups.map((group) => group.key)).map((key) => {
+    const id = getKeyId(key)
+    const group = byId.get(id) ?? { key, name: resolver.name(key), items: [] }
+    byId.delete(id)
+    return group
+  })
+
+  return filled.concat(Array.from(byId.values()))
+}
+
+/**
+ * Compute a single aggregate (e.g. `_sum` of `total`) for a group
+ */
+function aggregateGroup<T extends object>(
+  group: Group<T>,
+  aggregation: string,
+  path: string,
+  context: QueryContext
+): unknown {
+  if (aggregation === '_count') {
+    return group.items.length
+  }
+  const result = computeAggregates(
+    group.items,
+    { [aggregation]: { [path]: true } },
+    context
+  )
+  return (result[aggregation] as Record<string, unknown>)[path]
+}
+
+/**
+ * Check whether a group's aggregates satisfy the having conditions
+ */
+function matchesHaving<T extends object>(
+  group: Group<T>,
+  having: GroupHaving<T>,
+  context: QueryContext
+): boolean {
+  for (const aggregation in having) {
+    const condition = having[aggregation as keyof GroupHaving<T>]
+    if (condition === undefined) {
+      continue
+    }
+
+    if (aggregation === '_count') {
+      if (!matchesOperators(group.items.length, condition, context)) {
+        return false
+      }
+      continue
+    }
+
+    if (!isObject(condition)) {
+      return false
+    }
+    for (const path in condition) {
+      const value = aggregateGroup(group, aggregation, path, context)
+      if (
+        !matchesOperators(
+          value,
+          (condition as Record<string, unknown>)[path],
+          context
+        )
+      ) {
+        return false
+      }
+    }
+  }
+  return true
+}
+
+/**
+ * Turn a group orderBy clause into sort criteria, in order of precedence.
+ * Aggregates of date paths in the schema sort as dates.
+ */
+function getSortCriteria<T extends object>(
+  orderGroupsBy: GroupOrderBy<T>,
+  context: QueryContext
+): GroupSortCriterion<T>[] {
+  const criteria: GroupSortCriterion<T>[] = []
+
+  for (const [aggregation, spec] of Object.entries(orderGroupsBy)) {
+    if (aggregation === '_key' && spec) {
+      criteria.push({
+        value: (group) => group.key,
+        direction: spec as SortDirection,
+      })
+    } else if (aggregation === '_count' && spec) {
+      criteria.push({
+        value: (group) => group.items.length,
+        direction: spec as SortDirection,
+      })
+    } else if (isObject(spec)) {
+      for (const [path, direction] of Object.entries(spec)) {
+        const normalize = getSortNormalizer(path, context)
+        criteria.push({
+          value: (group) =>
+            normalize(aggregateGroup(group, aggregation, path, context)),
+          direction: direction as SortDirection,
+        })
+      }
+    }
+  }
+
+  return criteria
+}
+
+/**
+ * Sort groups by key or aggregate values, null values last
+ */
+function sortGroups<T extends object>(
+  groups: Group<T>[],
+  orderGroupsBy: GroupOrderBy<T>,
+  context: QueryContext
+): Group<T>[] {
+  const criteria = getSortCriteria(orderGroupsBy, context)
+  if (criteria.length === 0) {
+    return groups
+  }
+
+  const decorated = groups.map((group) => ({
+    group,
+    values: criteria.map((criterion) => criterion.value(group)),
+  }))
+
+  decorated.sort((a, b) => {
+    for (let i = 0; i < criteria.length; i++) {
+      const aValue = a.values[i]
+      const bValue = b.values[i]
+
+      const aNullOrUndefined = isNullOrUndefined(aValue)
+      const bNullOrUndefined = isNullOrUndefined(bValue)
+
+      if (aNullOrUndefined && bNullOrUndefined) {
+        continue
+      }
+      if (aNullOrUndefined) {
+        return 1
+      }
+      if (bNullOrUndefined) {
+        return -1
+      }
+
+      const comparison = compareValues(aValue, bValue)
+      if (comparison !== 0) {
+        return criteria[i].direction === 'desc' ? -comparison : comparison
+      }
+    }
+    return 0
+  })
+
+  return decorated.map(({ group }) => group)
+}
+
+/**
+ * Group, filter, sort and aggregate one grouping level
+ */
+function buildCollections<T extends object>(
+  items: T[],
+  specs: readonly GroupKeySpec<T>[],
+  composite: boolean,
+  query: GroupByQuery<T>,
+  context: QueryContext
+): Collection<T, Record<string, unknown>>[] {
+  const { having, orderGroupsBy, nested } = query
+  const levelSpecs = nested ? specs.slice(0, 1) : specs
+  const resolvers = levelSpecs.map((spec) => createKeyResolver(spec))
+
+  let groups = collectGroups(items, resolvers, composite && !nested)
+
+  if (resolvers.length === 1) {
+    groups = fillEmptyGroups(groups, resolvers[0])
+  }
+  if (having) {
+    groups = groups.filter((group) => matchesHaving(group, having, context))
+  }
+  if (orderGroupsBy) {
+    groups = sortGroups(groups, orderGroupsBy, context)
+  }
+
+  return groups.map(({ key, name, items: groupItems }) => {
+    const collection: Collection<T, Record<string, unknown>> = {
+      name,
+      key,
+      items: groupItems,
+      count: groupItems.length,
+      ...computeAggregates(groupItems, query, context),
+    }
+    if (nested && specs.length > 1) {
+      collection.groups = buildCollections(
+        groupItems,
+        specs.slice(1),
+        composite,
+        query,
+        context
+      )
+    }
+    return collection
+  })
+}
+
+/**
+ * Group objects by one or more fields
+ * @param objects - Array of objects or indexed collection to group
+ * @param field - Field to group by (e.g., "category"), a key function, or a bucketing
+ * strategy (date truncation, fixed-width ranges, explicit boundaries). Several keys
+ * (e.g., ["region", "country"]) group by their combined values, or as a tree with `nested: true`
+ * @param query - Optional query to filter objects before grouping.
+ * Sorting and paging (skip/take/cursor) apply to the objects before grouping,
+ * select/omit are not applied to the grouped items. A query prepared with compileQuery
+ * can be passed instead to filter and sort the objects.
+ * Aggregations (_count, _sum, _avg, _min, _max) are computed per group,
+ * `having` filters groups by aggregate and `orderGroupsBy` sorts them (at every level when nested).
+ * @param context - Operators of an engine (see createEngine), built-in operators by default
+ * @returns Array of grouped objects, each with a name, typed key, items, count and the selected aggregates
+ *
+ * @example
+ * groupBy(orders, "status", {
+ *   _sum: { total: true },
+ *   having: { _count: { $gte: 2 } },
+ *   orderGroupsBy: { _sum: { total: "desc" } },
+ * })
+ * @example
+ * groupBy(stores, ["region", "country", "city"], { nested: true })
+ * @example
+ * groupBy(orders, { field: "createdAt", date: "month", timeZone: "Europe/Berlin", fillEmpty: true })
+ */
+export function groupBy<
+  T extends object,
+  const F extends GroupByField<T>,
+  Q extends GroupByQuery<T> = Record<never, never>,
+>(
+  objects: QuerySource<T>,
+  field: F,
+  query?: Q | CompiledQuery<T, QueryPath<T>, QueryPath<T>>,
+  context: QueryContext = defaultContext
+): Collection<
+  T,
+  AggregateResult<T, Q>,
+  GroupKeyValue<T, F, Q extends { nested: true } ? true : false>
+>[] {
+  const filteredObjects = queryObjects(objects, query ?? {}, context)
+
+  if (filteredObjects.length === 0) {
+    return []
+  }
+
+  const specs = (isArray(field) ? field : [field]) as readonly GroupKeySpec<T>[]
+  const groupQuery: GroupByQuery<T> =
+    query && isCompiledQuery(query) ? query.query : (query ?? {})
+
+  return buildCollections(
+    filteredObjects,
+    specs,
+    isArray(field),
+    groupQuery,
+    context
+  ) as Collection<
+    T,
+    AggregateResult<T, Q>,
+    GroupKeyValue<T, F, Q extends { nested: true } ? true : false>
+  >[]
+}
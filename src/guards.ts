@@ -1,9 +1,14 @@
 /**
- * Check if value is a plain object (excluding arrays and null)
+ * Check if value is a plain object (excluding arrays, null, Maps, Sets and binary data)
  */
 
 export function isObject(value: unknown): value is Record<string, unknown> {
-  return typeof value === 'object' && value !== null && !Array.isArray(value)
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !isContainer(value)
+  )
 }
 
 /**
@@ -13,6 +18,39 @@ export function isArray(value: unknown): value is unknown[] {
   return Array.isArray(value)
 }
 
+/**
+ * Check if value is a Map
+ */
+export function isMap(value: unknown): value is Map<unknown, unknown> {
+  return value instanceof Map
+}
+
+/**
+ * Check if value is a Set
+ */
+export function isSet(value: unknown): value is Set<unknown> {
+  return value instanceof Set
+}
+
+/**
+ * Check if value is an ArrayBuffer or a view of one (typed arrays, DataView)
+ */
+export function isBinary(
+  value: unknown
+): value is ArrayBuffer | ArrayBufferView {
+  return value instanceof ArrayBuffer || ArrayBuffer.isView(value)
+}
+
+/**
+ * Check if value is a Map, Set or binary data, compared by contents rather than as a record
+ */
+export function isContainer(
+  value: unknown
+): value is
+  Map<unknown, unknown> | Set<unknown> | ArrayBuffer | ArrayBufferView {
+  return isMap(value) || isSet(value) || isBinary(value)
+}
+
 /**
  * Check if value is a number
  */
@@ -20,6 +58,42 @@ export function isNumber(value: unknown): value is number {
   return typeof value === 'number'
 }
 
+/**
+ * Check if value is a bigint
+ */
+export function isBigInt(value: unknown): value is bigint {
+  return typeof value === 'bigint'
+}
+
+/**
+ * Check if value is a number or a bigint
+ */
+export function isNumeric(value: unknown): value is number | bigint {
+  return typeof value === 'number' || typeof value === 'bigint'
+}
+
+/**
+ * Check whether a bigint and a number (in either order) have the same value
+ */
+export function isBigIntEqual(a: unknown, b: unknown): boolean {
+  if (typeof a === 'bigint') {
+    return typeof b === 'number' && Number.isInteger(b) && a === BigInt(b)
+  }
+  return typeof b === 'bigint' && isBigIntEqual(b, a)
+}
+
+/**
+ * Key of a value for hash lookups: a bigint that a number represents exactly
+ * becomes that number, so that equal bigints and numbers share a key
+ */
+export function getNumericKey(value: unknown): unknown {
+  if (typeof value !== 'bigint') {
+    return value
+  }
+  const number = Number(value)
+  return Number.isFinite(number) && BigInt(number) === value ? number : value
+}
+
 /**
  * Check if value is a string
  */
@@ -69,6 +143,9 @@ export function isEmpty(value: unknown): boolean {
   if (isNullOrUndefined(value)) return true
   if (isString(value)) return value.length === 0
   if (isArray(value)) return value.length === 0
+  if (isMap(value) || isSet(value)) {
+    return value.size === 0
+  }
   if (isObject(value)) return Object.keys(value).length === 0
   return false
 }
@@ -82,9 +159,41 @@ function typeOf(value: unknown): string {
   if (isArray(value)) return 'array'
   if (isDate(value)) return 'date'
   if (isRegExp(value)) return 'regexp'
+  if (isMap(value)) {
+    return 'map'
+  }
+  if (isSet(value)) {
+    return 'set'
+  }
+  // Typed arrays of different element types are different types
+  if (isBinary(value)) {
+    return Object.prototype.toString.call(value)
+  }
   return typeof value
 }
 
+/**
+ * Bytes of an ArrayBuffer, typed array or DataView
+ */
+function getBytes(value: ArrayBuffer | ArrayBufferView): Uint8Array {
+  return ArrayBuffer.isView(value)
+    ? new Uint8Array(value.buffer, value.byteOffset, value.byteLength)
+    : new Uint8Array(value)
+}
+
+/**
+ * Check if a Set has a value, or a structurally equal one for objects
+ */
+function setHas(set: Set<unknown>, value: unknown): boolean {
+  if (set.has(value)) {
+    return true
+  }
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+  return Array.from(set).some((item) => isEqual(item, value))
+}
+
 /**
  * Check if object has custom toString method
  */
@@ -104,6 +213,10 @@ export function isEqual(a: unknown, b: unknown): boolean {
   // strictly equal must be equal. matches referentially equal values.
   if (a === b || Object.is(a, b)) return true
   if (isNull(a) || isNull(b)) return false
+  // bigints equal numbers of the same value
+  if (isBigIntEqual(a, b)) {
+    return true
+  }
   // primitives types
   if (typeof a !== typeof b) return false
   if (typeof a !== 'object') return false
@@ -136,7 +249,38 @@ export function isEqual(a: unknown, b: unknown): boolean {
       }
       return true
     }
+    case 'map': {
+      const ma = a as Map<unknown, unknown>
+      const mb = b as Map<unknown, unknown>
+      if (ma.size !== mb.size) {
+        return false
+      }
+      return Array.from(ma).every(
+        ([key, value]) => mb.has(key) && isEqual(value, mb.get(key))
+      )
+    }
+    case 'set': {
+      const sa = a as Set<unknown>
+      const sb = b as Set<unknown>
+      if (sa.size !== sb.size) {
+        return false
+      }
+      return Array.from(sa).every((value) => setHas(sb, value))
+    }
     default:
+      if (isBinary(a)) {
+        const ba = getBytes(a)
+        const bb = getBytes(b as ArrayBuffer | ArrayBufferView)
+        if (ba.length !== bb.length) {
+          return false
+        }
+        for (let i = 0; i < ba.length; i++) {
+          if (ba[i] !== bb[i]) {
+            return false
+          }
+        }
+        return true
+      }
       // toString() compare all supported types including custom ones.
       return (
         hasCustomString(a) &&
@@ -1,15 +1,81 @@
-export { findMany, findFirst, groupBy } from './query'
+export { findMany, findFirst, findPage } from './query'
+export { groupBy } from './group'
+export { aggregate } from './aggregate'
+export { compileQuery } from './compile'
+export { createCollection } from './collection'
+export { explain } from './explain'
+export { diagnose, formatDiagnosis } from './diagnose'
+export { validateQuery } from './validate'
+export { createEngine } from './engine'
+export { fuzzyScore } from './operators/fuzzy'
+export { textScore } from './text'
+export {
+  QueryError,
+  UnknownOperatorError,
+  InvalidOperandError,
+  InvalidPathError,
+} from './errors'
 
 export type {
+  Collation,
+  FuzzyOptions,
+  TextSearch,
+  ValueType,
+  DateDuration,
+  DateHint,
+  QuerySchema,
   StringOperators,
   NumberOperators,
+  BigIntOperators,
   DateOperators,
   BooleanOperators,
   ArrayOperators,
+  SetOperators,
   FieldOperators,
   LogicalOperators,
+  CustomOperators,
+  CustomLogicalOperators,
+  Expression,
+  FieldReference,
   ObjectFilter,
   ObjectQuery,
+  CompiledQuery,
+  QueryCursor,
+  QueryPath,
+  DeepPick,
+  DeepOmit,
+  Projection,
+  PathValue,
   SortDirection,
   Collection,
+  GroupByQuery,
+  GroupByField,
+  GroupKeySpec,
+  GroupKeySource,
+  DateBucket,
+  DateBucketUnit,
+  RangeBucket,
+  BoundaryBucket,
+  GroupKeyValue,
+  GroupHaving,
+  GroupOrderBy,
+  Page,
+  AggregateFields,
+  AggregateSelection,
+  AggregateQuery,
+  AggregateResult,
+  CollectionIndexType,
+  CollectionOptions,
+  IndexedCollection,
+  QuerySource,
+  QueryPlan,
+  FilterPlanNode,
+  MatchDiagnosis,
+  DiagnosisNode,
+  OperatorDefinition,
+  LogicalOperatorDefinition,
+  QueryPlugin,
+  QueryContext,
+  EngineOptions,
 } from './types'
+export type { QueryEngine } from './engine'
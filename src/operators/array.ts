@@ -1,10 +1,20 @@
-import { isEqual, isObject } from '../guards.js'
+import {
+  isArray,
+  isBigIntEqual,
+  isContainer,
+  isEqual,
+  isNumeric,
+  isObject,
+} from '../guards.js'
 
 /**
- * Fast array inclusion for primitives
+ * Fast array inclusion for primitives, bigints and numbers compare by value
  */
 export function arrayIncludesShallow<T>(array: T[], value: T): boolean {
-  return array.includes(value)
+  return (
+    array.includes(value) ||
+    (isNumeric(value) && array.some((item) => isBigIntEqual(item, value)))
+  )
 }
 
 /**
@@ -24,9 +34,27 @@ export function arrayContainsAll<T>(haystack: T[], needles: T[]): boolean {
 
   // Use shallow comparison for primitives, deep for objects
   return needles.every((needle) => {
-    if (isObject(needle)) {
+    if (isObject(needle) || isContainer(needle)) {
       return arrayIncludes(haystack, needle)
     }
     return arrayIncludesShallow(haystack, needle)
   })
 }
+
+const collectedValues = new WeakSet<unknown[]>()
+
+/**
+ * Mark an array as the values collected from array elements along a path
+ * (`orders.total`, `orders.$[].total`), as opposed to an array field value
+ */
+export function markCollectedValues(values: unknown[]): unknown[] {
+  collectedValues.add(values)
+  return values
+}
+
+/**
+ * Check whether a value was collected from array elements along a path
+ */
+export function isCollectedValues(value: unknown): value is unknown[] {
+  return isArray(value) && collectedValues.has(value)
+}
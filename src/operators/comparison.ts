@@ -1,10 +1,38 @@
-import { isNumber, isString } from '../guards.js'
+import { isNumber, isNumeric, isString } from '../guards.js'
 
 /**
- * Greater than comparison with type safety
+ * Number of a numeric string such as `"42"` or `"1.5e3"`, otherwise undefined
  */
-export function isGreaterThan(a: unknown, b: unknown): boolean {
-  if (isNumber(a) && isNumber(b)) return a > b
+function parseNumericString(value: string): number | undefined {
+  if (value.trim() === '') {
+    return undefined
+  }
+  const number = Number(value)
+  return Number.isFinite(number) ? number : undefined
+}
+
+/**
+ * Coerce a numeric string compared with a number to a number
+ */
+function coerceNumbers(a: unknown, b: unknown): [unknown, unknown] {
+  if (isNumber(a) && isString(b)) {
+    return [a, parseNumericString(b) ?? b]
+  }
+  if (isString(a) && isNumber(b)) {
+    return [parseNumericString(a) ?? a, b]
+  }
+  return [a, b]
+}
+
+/**
+ * Greater than comparison with type safety: numbers and bigints with each
+ * other, strings with strings. With coercion, numeric strings compare as numbers.
+ */
+export function isGreaterThan(a: unknown, b: unknown, coerce = false): boolean {
+  if (coerce) {
+    return isGreaterThan(...coerceNumbers(a, b))
+  }
+  if (isNumeric(a) && isNumeric(b)) return a > b
   if (isString(a) && isString(b)) return a > b
   return false
 }
@@ -12,8 +40,15 @@ export function isGreaterThan(a: unknown, b: unknown): boolean {
 /**
  * Greater than or equal comparison with type safety
  */
-export function isGreaterThanOrEqual(a: unknown, b: unknown): boolean {
-  if (isNumber(a) && isNumber(b)) return a >= b
+export function isGreaterThanOrEqual(
+  a: unknown,
+  b: unknown,
+  coerce = false
+): boolean {
+  if (coerce) {
+    return isGreaterThanOrEqual(...coerceNumbers(a, b))
+  }
+  if (isNumeric(a) && isNumeric(b)) return a >= b
   if (isString(a) && isString(b)) return a >= b
   return false
 }
@@ -21,8 +56,11 @@ export function isGreaterThanOrEqual(a: unknown, b: unknown): boolean {
 /**
  * Less than comparison with type safety
  */
-export function isLessThan(a: unknown, b: unknown): boolean {
-  if (isNumber(a) && isNumber(b)) return a < b
+export function isLessThan(a: unknown, b: unknown, coerce = false): boolean {
+  if (coerce) {
+    return isLessThan(...coerceNumbers(a, b))
+  }
+  if (isNumeric(a) && isNumeric(b)) return a < b
   if (isString(a) && isString(b)) return a < b
   return false
 }
@@ -30,17 +68,35 @@ export function isLessThan(a: unknown, b: unknown): boolean {
 /**
  * Less than or equal comparison with type safety
  */
-export function isLessThanOrEqual(a: unknown, b: unknown): boolean {
-  if (isNumber(a) && isNumber(b)) return a <= b
+export function isLessThanOrEqual(
+  a: unknown,
+  b: unknown,
+  coerce = false
+): boolean {
+  if (coerce) {
+    return isLessThanOrEqual(...coerceNumbers(a, b))
+  }
+  if (isNumeric(a) && isNumeric(b)) return a <= b
   if (isString(a) && isString(b)) return a <= b
   return false
 }
 
 /**
- * Between range check with type safety (numbers and strings only)
+ * Between range check with type safety (numbers, bigints and strings only)
  */
-export function isBetween(value: unknown, min: unknown, max: unknown): boolean {
-  if (isNumber(value) && isNumber(min) && isNumber(max)) {
+export function isBetween(
+  value: unknown,
+  min: unknown,
+  max: unknown,
+  coerce = false
+): boolean {
+  if (coerce) {
+    return (
+      isGreaterThanOrEqual(value, min, true) &&
+      isLessThanOrEqual(value, max, true)
+    )
+  }
+  if (isNumeric(value) && isNumeric(min) && isNumeric(max)) {
     return value >= min && value <= max
   }
   if (isString(value) && isString(min) && isString(max)) {
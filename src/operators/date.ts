@@ -1,9 +1,107 @@
-import { isDate } from '../guards.js'
+import { isDate, isNumber, isObject, isString } from '../guards.js'
+import type {
+  DateBucketUnit,
+  DateDuration,
+  DateHint,
+  QueryContext,
+} from '../types.js'
+
+// Date, optionally with a time and a UTC offset, e.g. 2024-03-01T12:00:00Z
+const isoDatePattern =
+  /^\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/
+
+/**
+ * Date of an ISO 8601 date string, otherwise undefined
+ */
+export function parseIsoDate(value: string): Date | undefined {
+  if (!isoDatePattern.test(value)) {
+    return undefined
+  }
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? undefined : date
+}
+
+/**
+ * Check whether a value looks like a Temporal instant (`epochMilliseconds`)
+ * or plain date (`year`, `month`, `day`)
+ */
+export function isTemporalLike(
+  value: unknown
+): value is Record<string, unknown> {
+  return (
+    isObject(value) &&
+    (isNumber(value.epochMilliseconds) ||
+      (isNumber(value.year) && isNumber(value.month) && isNumber(value.day)))
+  )
+}
+
+/**
+ * Date of a value stored at a date path: a Date, an ISO 8601 string, a
+ * Temporal-like instant or plain date (wall-clock time in the time zone),
+ * or with the `"epoch"` hint milliseconds since 1970. Undefined otherwise.
+ */
+export function toDate(
+  value: unknown,
+  hint: DateHint,
+  timeZone = 'UTC'
+): Date | undefined {
+  if (isDate(value)) {
+    return value
+  }
+  if (isString(value)) {
+    return parseIsoDate(value)
+  }
+  if (isNumber(value)) {
+    return hint === 'epoch' && Number.isFinite(value)
+      ? new Date(value)
+      : undefined
+  }
+  if (!isTemporalLike(value)) {
+    return undefined
+  }
+  if (isNumber(value.epochMilliseconds)) {
+    return new Date(value.epochMilliseconds)
+  }
+  const { year, month, day, hour, minute, second, millisecond } =
+    value as Record<string, number | undefined>
+  return createZonedDate(
+    {
+      year: year as number,
+      month: month as number,
+      day: day as number,
+      hour,
+      minute,
+      second,
+      millisecond,
+    },
+    timeZone
+  )
+}
+
+/**
+ * Coerce an ISO date string compared with a Date to a Date
+ */
+function coerceDates(a: unknown, b: unknown): [unknown, unknown] {
+  if (isDate(a) && isString(b)) {
+    return [a, parseIsoDate(b) ?? b]
+  }
+  if (isString(a) && isDate(b)) {
+    return [parseIsoDate(a) ?? a, b]
+  }
+  return [a, b]
+}
 
 /**
- * Date greater than comparison
+ * Date greater than comparison, with coercion also of ISO date strings
  */
-export function isDateGreaterThan(a: unknown, b: unknown): boolean {
+export function isDateGreaterThan(
+  a: unknown,
+  b: unknown,
+  coerce = false
+): boolean {
+  if (coerce) {
+    return isDateGreaterThan(...coerceDates(a, b))
+  }
   if (isDate(a) && isDate(b)) {
     return a.getTime() > b.getTime()
   }
@@ -13,7 +111,14 @@ export function isDateGreaterThan(a: unknown, b: unknown): boolean {
 /**
  * Date greater than or equal comparison
  */
-export function isDateGreaterThanOrEqual(a: unknown, b: unknown): boolean {
+export function isDateGreaterThanOrEqual(
+  a: unknown,
+  b: unknown,
+  coerce = false
+): boolean {
+  if (coerce) {
+    return isDateGreaterThanOrEqual(...coerceDates(a, b))
+  }
   if (isDate(a) && isDate(b)) {
     return a.getTime() >= b.getTime()
   }
@@ -23,7 +128,14 @@ export function isDateGreaterThanOrEqual(a: unknown, b: unknown): boolean {
 /**
  * Date less than comparison
  */
-export function isDateLessThan(a: unknown, b: unknown): boolean {
+export function isDateLessThan(
+  a: unknown,
+  b: unknown,
+  coerce = false
+): boolean {
+  if (coerce) {
+    return isDateLessThan(...coerceDates(a, b))
+  }
   if (isDate(a) && isDate(b)) {
     return a.getTime() < b.getTime()
   }
@@ -33,7 +145,14 @@ export function isDateLessThan(a: unknown, b: unknown): boolean {
 /**
  * Date less than or equal comparison
  */
-export function isDateLessThanOrEqual(a: unknown, b: unknown): boolean {
+export function isDateLessThanOrEqual(
+  a: unknown,
+  b: unknown,
+  coerce = false
+): boolean {
+  if (coerce) {
+    return isDateLessThanOrEqual(...coerceDates(a, b))
+  }
   if (isDate(a) && isDate(b)) {
     return a.getTime() <= b.getTime()
   }
@@ -46,11 +165,290 @@ export function isDateLessThanOrEqual(a: unknown, b: unknown): boolean {
 export function isDateBetween(
   value: unknown,
   min: unknown,
-  max: unknown
+  max: unknown,
+  coerce = false
 ): boolean {
+  if (coerce) {
+    return (
+      isDateGreaterThanOrEqual(value, min, true) &&
+      isDateLessThanOrEqual(value, max, true)
+    )
+  }
   if (isDate(value) && isDate(min) && isDate(max)) {
     const valueTime = value.getTime()
     return valueTime >= min.getTime() && valueTime <= max.getTime()
   }
   return false
 }
+
+/**
+ * Wall-clock parts of a date in a time zone (month 1-12, weekday 0 = Sunday)
+ */
+export type DateParts = {
+  year: number
+  month: number
+  day: number
+  hour: number
+  minute: number
+  second: number
+  millisecond: number
+  weekday: number
+}
+
+const dateFormatCache = new Map<string, Intl.DateTimeFormat>()
+
+const WEEKDAYS: Record<string, number> = {
+  Sun: 0,
+  Mon: 1,
+  Tue: 2,
+  Wed: 3,
+  Thu: 4,
+  Fri: 5,
+  Sat: 6,
+}
+
+function getDateFormat(timeZone: string): Intl.DateTimeFormat {
+  let format = dateFormatCache.get(timeZone)
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short',
+    })
+    dateFormatCache.set(timeZone, format)
+  }
+  return format
+}
+
+/**
+ * Get the wall-clock parts of a date in a time zone (UTC by default)
+ */
+export function getDateParts(date: Date, timeZone = 'UTC'): DateParts {
+  if (timeZone === 'UTC') {
+    return {
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+      hour: date.getUTCHours(),
+      minute: date.getUTCMinutes(),
+      second: date.getUTCSeconds(),
+      millisecond: date.getUTCMilliseconds(),
+      weekday: date.getUTCDay(),
+    }
+  }
+
+  const parts: Record<string, string> = {}
+  for (const { type, value } of getDateFormat(timeZone).formatToParts(date)) {
+    parts[type] = value
+  }
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    millisecond: date.getUTCMilliseconds(),
+    weekday: WEEKDAYS[parts.weekday],
+  }
+}
+
+/**
+ * Offset of a time zone from UTC at a given instant, in milliseconds
+ */
+function getTimeZoneOffset(time: number, timeZone: string): number {
+  const parts = getDateParts(new Date(time), timeZone)
+  const wallTime = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+    parts.millisecond
+  )
+  return wallTime - time
+}
+
+/**
+ * Create the instant of a wall-clock time in a time zone (UTC by default).
+ * Out-of-range parts roll over, e.g. day 0 is the last day of the previous month.
+ */
+export function createZonedDate(
+  parts: Pick<DateParts, 'year' | 'month' | 'day'> &
+    Partial<Pick<DateParts, 'hour' | 'minute' | 'second' | 'millisecond'>>,
+  timeZone = 'UTC'
+): Date {
+  const wallTime = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour ?? 0,
+    parts.minute ?? 0,
+    parts.second ?? 0,
+    parts.millisecond ?? 0
+  )
+  if (timeZone === 'UTC') {
+    return new Date(wallTime)
+  }
+
+  // Resolve the offset at the guessed instant to handle DST transitions
+  const guess = wallTime - getTimeZoneOffset(wallTime, timeZone)
+  return new Date(wallTime - getTimeZoneOffset(guess, timeZone))
+}
+
+/**
+ * Truncate a date to the start of its day/week/month/quarter/year in a time zone.
+ * Weeks start on Monday unless weekStartsOn is 0 (Sunday).
+ */
+export function startOfDateUnit(
+  date: Date,
+  unit: DateBucketUnit,
+  timeZone = 'UTC',
+  weekStartsOn: 0 | 1 = 1
+): Date {
+  const { year, month, day, weekday } = getDateParts(date, timeZone)
+  switch (unit) {
+    case 'day':
+      return createZonedDate({ year, month, day }, timeZone)
+    case 'week':
+      return createZonedDate(
+        { year, month, day: day - ((weekday - weekStartsOn + 7) % 7) },
+        timeZone
+      )
+    case 'month':
+      return createZonedDate({ year, month, day: 1 }, timeZone)
+    case 'quarter':
+      return createZonedDate(
+        { year, month: Math.floor((month - 1) / 3) * 3 + 1, day: 1 },
+        timeZone
+      )
+    case 'year':
+      return createZonedDate({ year, month: 1, day: 1 }, timeZone)
+  }
+}
+
+/**
+ * Wall-clock parts a number of months later, with the day clamped to the
+ * last day of the target month (Jan 31 plus one month is Feb 28 or 29)
+ */
+function addMonthsToParts(parts: DateParts, months: number): DateParts {
+  const index = parts.year * 12 + parts.month - 1 + months
+  const year = Math.floor(index / 12)
+  const month = index - year * 12 + 1
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate()
+  return { ...parts, year, month, day: Math.min(parts.day, lastDay) }
+}
+
+/**
+ * Add a number of days/weeks/months/quarters/years to a date in a time zone.
+ * Months, quarters and years keep the day of the month where the target
+ * month has it, and end on its last day otherwise.
+ */
+export function addDateUnits(
+  date: Date,
+  unit: DateBucketUnit,
+  amount: number,
+  timeZone = 'UTC'
+): Date {
+  const parts = getDateParts(date, timeZone)
+  switch (unit) {
+    case 'day':
+      return createZonedDate({ ...parts, day: parts.day + amount }, timeZone)
+    case 'week':
+      return createZonedDate(
+        { ...parts, day: parts.day + amount * 7 },
+        timeZone
+      )
+    case 'month':
+      return createZonedDate(addMonthsToParts(parts, amount), timeZone)
+    case 'quarter':
+      return createZonedDate(addMonthsToParts(parts, amount * 3), timeZone)
+    case 'year':
+      return createZonedDate(addMonthsToParts(parts, amount * 12), timeZone)
+  }
+}
+
+const calendarUnits: [keyof DateDuration, DateBucketUnit][] = [
+  ['years', 'year'],
+  ['quarters', 'quarter'],
+  ['months', 'month'],
+  ['weeks', 'week'],
+  ['days', 'day'],
+]
+
+/**
+ * Add a duration to a date, or subtract it with a sign of -1. Calendar units
+ * are added in the time zone, from the largest, then hours, minutes and seconds.
+ */
+export function addDuration(
+  date: Date,
+  duration: DateDuration,
+  sign: 1 | -1,
+  timeZone = 'UTC'
+): Date {
+  let result = date
+  for (const [key, unit] of calendarUnits) {
+    const amount = duration[key]
+    if (amount) {
+      result = addDateUnits(result, unit, sign * amount, timeZone)
+    }
+  }
+  const seconds =
+    (duration.hours ?? 0) * 3600 +
+    (duration.minutes ?? 0) * 60 +
+    (duration.seconds ?? 0)
+  return new Date(result.getTime() + sign * seconds * 1000)
+}
+
+/**
+ * Check whether two dates fall in the same day/week/month/quarter/year in a time zone
+ */
+export function isSameDateUnit(
+  a: Date,
+  b: Date,
+  unit: DateBucketUnit,
+  timeZone = 'UTC'
+): boolean {
+  return (
+    startOfDateUnit(a, unit, timeZone).getTime() ===
+    startOfDateUnit(b, unit, timeZone).getTime()
+  )
+}
+
+/**
+ * Current time of a query: the `now` of the engine, or the system clock
+ */
+export function getNow(context: QueryContext): Date {
+  return context.now ? context.now() : new Date()
+}
+
+/**
+ * Time zone of the calendar operators of a condition: `$timeZone` if set,
+ * otherwise the default of the context, otherwise UTC
+ */
+export function getTimeZone(
+  condition: Record<string, unknown>,
+  context: QueryContext
+): string {
+  return isString(condition.$timeZone)
+    ? condition.$timeZone
+    : (context.timeZone ?? 'UTC')
+}
+
+/**
+ * Date part matched by each date part operator
+ */
+export const datePartOperators: Record<string, keyof DateParts> = {
+  $year: 'year',
+  $month: 'month',
+  $dayOfMonth: 'day',
+  $dayOfWeek: 'weekday',
+  $hour: 'hour',
+}
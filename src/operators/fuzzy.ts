@@ -0,0 +1,193 @@
+import { isArray, isNumber, isObject, isString } from '../guards.js'
+import { defaultContext } from '../context.js'
+import { getStringFold } from './string.js'
+import type { FuzzyOptions, QueryContext, StringOperators } from '../types.js'
+
+/**
+ * Modifiers of a `$fuzzy` condition that change how strings are compared
+ */
+export type FuzzyModifiers = Pick<
+  StringOperators,
+  '$caseSensitive' | '$collation'
+>
+
+/**
+ * Smallest edit distance (insertions, deletions, substitutions) between a
+ * search term and any substring of a text, so that a misspelled word still
+ * matches inside a longer text
+ */
+export function substringDistance(search: string, text: string): number {
+  const pattern = Array.from(search)
+  const chars = Array.from(text)
+  const length = pattern.length
+
+  // previous[i]: distance of the first i pattern characters to the best
+  // substring ending before the current text character
+  let previous: number[] = []
+  for (let i = 0; i <= length; i++) {
+    previous.push(i)
+  }
+  let best = length
+
+  for (let j = 0; j < chars.length && best > 0; j++) {
+    const current = [0]
+    for (let i = 1; i <= length; i++) {
+      const cost = pattern[i - 1] === chars[j] ? 0 : 1
+      current.push(
+        Math.min(previous[i] + 1, current[i - 1] + 1, previous[i - 1] + cost)
+      )
+    }
+    best = Math.min(best, current[length])
+    previous = current
+  }
+  return best
+}
+
+/**
+ * Normalize a `$fuzzy` operand, a search term or options
+ */
+function getFuzzyOptions(operand: unknown): FuzzyOptions | undefined {
+  if (isString(operand)) {
+    return { value: operand }
+  }
+  return isObject(operand) && isString(operand.value)
+    ? (operand as FuzzyOptions)
+    : undefined
+}
+
+/**
+ * Default maximum distance: none for terms of up to 3 characters,
+ * 1 for up to 7 characters, 2 for longer terms. Any part of the string can
+ * match, so one edit in a 3-letter term would already match most words
+ * sharing two letters with it ("cat" in "Hat", "Boat" or "act").
+ */
+function getDefaultMaxDistance(search: string): number {
+  const length = Array.from(search).length
+  return length <= 3 ? 0 : length <= 7 ? 1 : 2
+}
+
+/**
+ * Similarity of a string to a search term, from 0 to 1
+ */
+function stringSimilarity(
+  str: string,
+  search: string,
+  fold: (str: string) => string
+): { distance: number; similarity: number } {
+  const term = fold(search)
+  const length = Array.from(term).length
+  const distance = substringDistance(term, fold(str))
+  return {
+    distance,
+    similarity: length === 0 ? 1 : Math.max(0, 1 - distance / length),
+  }
+}
+
+/**
+ * Check whether a string, or any string of an array, is within the
+ * distance and similarity limits of a `$fuzzy` operand
+ */
+export function matchesFuzzy(
+  value: unknown,
+  operand: unknown,
+  fold: (str: string) => string
+): boolean {
+  const options = getFuzzyOptions(operand)
+  if (!options) {
+    return false
+  }
+  const maxDistance = isNumber(options.maxDistance)
+    ? options.maxDistance
+    : getDefaultMaxDistance(options.value)
+  const minSimilarity = options.minSimilarity ?? 0
+
+  const matches = (item: unknown) => {
+    if (!isString(item)) {
+      return false
+    }
+    const { distance, similarity } = stringSimilarity(item, options.value, fold)
+    return distance <= maxDistance && similarity >= minSimilarity
+  }
+  return isArray(value) ? value.some(matches) : matches(value)
+}
+
+/**
+ * Best similarity of a string, or of any string of an array, to a search term
+ */
+function bestSimilarity(
+  value: unknown,
+  search: string,
+  fold: (str: string) => string
+): number {
+  const items = isArray(value) ? value : [value]
+  let best = 0
+  for (const item of items) {
+    if (isString(item)) {
+      best = Math.max(best, stringSimilarity(item, search, fold).similarity)
+    }
+  }
+  return best
+}
+
+/**
+ * Score how closely a value matches a fuzzy search term, to order results
+ * by closeness (see also the `$fuzzyScore` sort key)
+ *
+ * The score is 1 minus the edit distance of the term to the closest part of
+ * the value, relative to the length of the term. Strings are compared like
+ * `$fuzzy` does under the `$caseSensitive` and `$collation` modifiers,
+ * ignoring case by default.
+ *
+ * @param value - String or array of strings (the best string counts)
+ * @param search - Search term, or `$fuzzy` options with the term as `value`
+ * @param modifiers - `$caseSensitive` and `$collation` of the condition
+ * @param context - Engine whose case sensitivity and collation apply by default
+ * @returns Similarity from 0 (no resemblance or not a string) to 1 (exact match)
+ *
+ * @example
+ * fuzzyScore("Crème brûlée", "creme brulee", { $collation: { locale: "fr" } }) // 1
+ * // Inside queries, sort by closeness with the `$fuzzyScore` sort key
+ * findMany(products, {
+ *   where: { name: { $fuzzy: "macbok" } },
+ *   orderBy: { $fuzzyScore: "desc" },
+ * })
+ */
+export function fuzzyScore(
+  value: unknown,
+  search: string | FuzzyOptions,
+  modifiers: FuzzyModifiers = {},
+  context: QueryContext = defaultContext
+): number {
+  const options = getFuzzyOptions(search)
+  if (!options) {
+    return 0
+  }
+  return bestSimilarity(
+    value,
+    options.value,
+    getStringFold(modifiers as Record<string, unknown>, context)
+  )
+}
+
+/**
+ * `$fuzzy` conditions of a where clause with the paths they apply to,
+ * including those inside `$and` and `$or`
+ */
+export function findFuzzyConditions(
+  where: unknown
+): { path: string; condition: Record<string, unknown> }[] {
+  if (isArray(where)) {
+    return where.flatMap(findFuzzyConditions)
+  }
+  if (!isObject(where)) {
+    return []
+  }
+  return Object.entries(where).flatMap(([key, condition]) => {
+    if (key === '$and' || key === '$or') {
+      return findFuzzyConditions(condition)
+    }
+    return key.charAt(0) !== '$' && isObject(condition) && '$fuzzy' in condition
+      ? [{ path: key, condition }]
+      : []
+  })
+}
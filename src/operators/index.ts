@@ -5,13 +5,35 @@ import {
   isEmpty,
   isEqual,
   isNullOrUndefined,
+  isDate,
+  isRegExp,
+  isContainer,
+  isSet,
+  isBigIntEqual,
 } from '../guards.js'
 import {
   arrayIncludes,
   arrayContainsAll,
   arrayIncludesShallow,
+  isCollectedValues,
 } from './array.js'
-import { stringContainsIgnoreCase, stringMatchesRegex } from './string.js'
+import {
+  getCollation,
+  getRegexFlags,
+  getStringFold,
+  isCaseSensitive,
+  stringContains,
+  stringContainsIgnoreCase,
+  stringHasAffix,
+  stringEqualsCollated,
+  stringMatchesCollated,
+  stringMatchesRegex,
+  testRegExp,
+} from './string.js'
+import { matchesFuzzy } from './fuzzy.js'
+import { matchesType } from './type.js'
+import { matchesBits, matchesMod } from './numeric.js'
+import { getModifiers, isModifier } from './modifiers.js'
 
 import {
   isGreaterThan,
@@ -27,42 +49,210 @@ import {
   isDateLessThan,
   isDateLessThanOrEqual,
   isDateBetween,
+  addDuration,
+  datePartOperators,
+  getDateParts,
+  getNow,
+  getTimeZone,
+  isSameDateUnit,
+  parseIsoDate,
 } from './date.js'
+import { matchesFilter } from '../utils.js'
+import { defaultContext } from '../context.js'
+import type {
+  Collation,
+  DateBucketUnit,
+  DateDuration,
+  ObjectFilter,
+  QueryContext,
+} from '../types.js'
+
+/**
+ * Match an array element against an `$elemMatch` condition: objects as filters
+ * (including logical operators), other values against the operators
+ */
+function matchesElement(
+  element: unknown,
+  condition: unknown,
+  context: QueryContext
+): boolean {
+  if (isObject(element) && !isDate(element)) {
+    return matchesFilter(
+      element,
+      condition as ObjectFilter<typeof element>,
+      context
+    )
+  }
+  return matchesOperators(element, condition, context)
+}
+
+const sameDateUnits: Record<string, DateBucketUnit> = {
+  $sameDay: 'day',
+  $sameMonth: 'month',
+  $sameYear: 'year',
+}
 
-function getNestedValue(obj: Record<string, unknown>, path: string): unknown {
-  if (!obj || !path) return undefined
+/**
+ * Match a date against a relative (`$withinLast`, `$withinNext`) or calendar
+ * operator (`$sameDay`, `$year`...) in the time zone of the condition.
+ * ISO date strings are matched as dates when the context coerces types.
+ */
+function matchesCalendar(
+  value: unknown,
+  operator: string,
+  operand: unknown,
+  condition: Record<string, unknown>,
+  context: QueryContext
+): boolean {
+  const date = isDate(value)
+    ? value
+    : context.coerceTypes && isString(value)
+      ? parseIsoDate(value)
+      : undefined
+  if (!date) {
+    return false
+  }
+  const timeZone = getTimeZone(condition, context)
 
-  // If no dot, direct access
-  if (path.indexOf('.') === -1) {
-    return obj[path]
+  if (operator === '$withinLast' || operator === '$withinNext') {
+    if (!isObject(operand)) {
+      return false
+    }
+    const now = getNow(context)
+    const sign = operator === '$withinLast' ? -1 : 1
+    const bound = addDuration(now, operand as DateDuration, sign, timeZone)
+    const [start, end] = sign < 0 ? [bound, now] : [now, bound]
+    const time = date.getTime()
+    return time >= start.getTime() && time <= end.getTime()
   }
 
-  const parts = path.split('.')
-  let current: unknown = obj
-  for (let i = 0; i < parts.length && current != null; i++) {
-    current = (current as Record<string, unknown>)[parts[i]]
+  const unit = sameDateUnits[operator]
+  if (unit) {
+    const other = operand === 'now' ? getNow(context) : operand
+    return isDate(other) && isSameDateUnit(date, other, unit, timeZone)
+  }
+
+  const part = getDateParts(date, timeZone)[datePartOperators[operator]]
+  return matchesOperators(part, operand, context)
+}
+
+/**
+ * Compare a value to an operand, strings under a collation if there is one
+ */
+function isEqualTo(
+  value: unknown,
+  operand: unknown,
+  collation: Collation | undefined
+): boolean {
+  if (collation && isString(value) && isString(operand)) {
+    return stringEqualsCollated(value, operand, collation)
+  }
+  return isEqual(value, operand)
+}
+
+/**
+ * Check whether an operator only matches when no collected value contradicts it
+ */
+function isNegativeOperator(operator: string, condition: unknown): boolean {
+  return (
+    operator === '$ne' ||
+    operator === '$nin' ||
+    (operator === '$exists' && condition === false)
+  )
+}
+
+/**
+ * Check whether an operator combines other conditions on the same field
+ */
+function isFieldLogicalOperator(operator: string): boolean {
+  return operator === '$not' || operator === '$or' || operator === '$and'
+}
+
+/**
+ * Evaluate a field-level `$not`, `$or` or `$and`, whose operands are field
+ * conditions (literals or operator objects) on the same value
+ */
+function matchesFieldLogical(
+  value: unknown,
+  operator: string,
+  condition: unknown,
+  context: QueryContext
+): boolean {
+  if (operator === '$not') {
+    return !matchesOperators(value, condition, context)
+  }
+  if (!isArray(condition)) {
+    return false
   }
-  return current
+  const matches = (branch: unknown) => matchesOperators(value, branch, context)
+  return operator === '$or' ? condition.some(matches) : condition.every(matches)
 }
 
-function matchesConditions(
-  obj: Record<string, unknown>,
-  conditions: Record<string, unknown>
+/**
+ * Match the values collected through arrays along a path (`orders.total`):
+ * each operator matches if any value matches it, negative operators
+ * (`$ne`, `$nin`, `$exists: false`) if every value does. `$not` matches if
+ * no value matches its condition.
+ */
+function matchesCollectedValues(
+  values: unknown[],
+  operators: unknown,
+  context: QueryContext
 ): boolean {
-  for (const key in conditions) {
-    const condition = conditions[key]
-    const value = getNestedValue(obj, key)
+  if (
+    typeof operators !== 'object' ||
+    operators === null ||
+    isRegExp(operators) ||
+    isDate(operators) ||
+    isContainer(operators)
+  ) {
+    return values.some((value) => matchesOperators(value, operators, context))
+  }
 
-    if (!matchesOperators(value, condition)) {
+  const ops = operators as Record<string, unknown>
+  const modifiers = getModifiers(ops)
+  for (const operator in ops) {
+    if (isModifier(operator)) {
+      continue
+    }
+    const single = { ...modifiers, [operator]: ops[operator] }
+    const matches = (value: unknown) => matchesOperators(value, single, context)
+    // Logical operators combine conditions on all the collected values
+    const matched = isFieldLogicalOperator(operator)
+      ? matchesFieldLogical(values, operator, ops[operator], context)
+      : isNegativeOperator(operator, ops[operator])
+        ? values.every(matches)
+        : values.some(matches)
+    if (!matched) {
       return false
     }
   }
   return true
 }
 
-export function matchesOperators(value: unknown, operators: unknown): boolean {
+/**
+ * Check a value against a field condition: a literal, or an object of operators
+ * and nested properties. Unknown operators are ignored unless the context
+ * registers them. Values collected through arrays match if any value matches.
+ */
+export function matchesOperators(
+  value: unknown,
+  operators: unknown,
+  context: QueryContext = defaultContext
+): boolean {
+  if (isCollectedValues(value)) {
+    return matchesCollectedValues(value, operators, context)
+  }
   if (typeof operators !== 'object' || operators === null) {
-    return value === operators
+    return context.collation && isString(value) && isString(operators)
+      ? stringEqualsCollated(value, operators, context.collation)
+      : value === operators || isBigIntEqual(value, operators)
+  }
+  if (isRegExp(operators)) {
+    return isString(value) && testRegExp(operators, value)
+  }
+  if (isDate(operators) || isContainer(operators)) {
+    return isEqual(value, operators)
   }
 
   const ops = operators as Record<string, unknown>
@@ -73,41 +263,45 @@ export function matchesOperators(value: unknown, operators: unknown): boolean {
     if (operator.charCodeAt(0) === 36) {
       switch (operator) {
         case '$eq':
-          if (!isEqual(value, condition)) return false
+          if (!isEqualTo(value, condition, getCollation(ops, context))) {
+            return false
+          }
           break
 
         case '$ne':
-          if (isEqual(value, condition)) return false
+          if (isEqualTo(value, condition, getCollation(ops, context))) {
+            return false
+          }
           break
 
         case '$gte':
           if (
-            !isGreaterThanOrEqual(value, condition) &&
-            !isDateGreaterThanOrEqual(value, condition)
+            !isGreaterThanOrEqual(value, condition, context.coerceTypes) &&
+            !isDateGreaterThanOrEqual(value, condition, context.coerceTypes)
           )
             return false
           break
 
         case '$gt':
           if (
-            !isGreaterThan(value, condition) &&
-            !isDateGreaterThan(value, condition)
+            !isGreaterThan(value, condition, context.coerceTypes) &&
+            !isDateGreaterThan(value, condition, context.coerceTypes)
           )
             return false
           break
 
         case '$lt':
           if (
-            !isLessThan(value, condition) &&
-            !isDateLessThan(value, condition)
+            !isLessThan(value, condition, context.coerceTypes) &&
+            !isDateLessThan(value, condition, context.coerceTypes)
           )
             return false
           break
 
         case '$lte':
           if (
-            !isLessThanOrEqual(value, condition) &&
-            !isDateLessThanOrEqual(value, condition)
+            !isLessThanOrEqual(value, condition, context.coerceTypes) &&
+            !isDateLessThanOrEqual(value, condition, context.coerceTypes)
           )
             return false
           break
@@ -115,7 +309,7 @@ export function matchesOperators(value: unknown, operators: unknown): boolean {
         case '$in': {
           if (!isArray(condition)) return false
           if (isEmpty(condition)) return false
-          if (isObject(value)) {
+          if (isObject(value) || isContainer(value)) {
             if (!arrayIncludes(condition, value)) return false
           } else {
             if (!arrayIncludesShallow(condition, value)) return false
@@ -125,7 +319,7 @@ export function matchesOperators(value: unknown, operators: unknown): boolean {
         case '$nin': {
           if (!isArray(condition)) return false
           if (isEmpty(condition)) return false
-          if (isObject(value)) {
+          if (isObject(value) || isContainer(value)) {
             if (arrayIncludes(condition, value)) return false
           } else {
             if (arrayIncludesShallow(condition, value)) return false
@@ -134,27 +328,34 @@ export function matchesOperators(value: unknown, operators: unknown): boolean {
         }
 
         case '$contains': {
-          if (isString(value) && isString(condition)) {
-            if (!stringContainsIgnoreCase(value, condition)) return false
-          } else if (isArray(value)) {
+          const items = isSet(value) ? Array.from(value) : value
+          const collation = getCollation(ops, context)
+          const contains = collation
+            ? (str: string, search: string) =>
+                stringMatchesCollated(str, search, 'any', collation)
+            : isCaseSensitive(ops, context)
+              ? stringContains
+              : stringContainsIgnoreCase
+          if (isString(items) && isString(condition)) {
+            if (!contains(items, condition)) {
+              return false
+            }
+          } else if (isArray(items)) {
             let found = false
             if (isString(condition)) {
-              for (let i = 0; i < value.length; i++) {
-                const item = value[i]
-                if (
-                  isString(item) &&
-                  stringContainsIgnoreCase(item, condition)
-                ) {
+              for (let i = 0; i < items.length; i++) {
+                const item = items[i]
+                if (isString(item) && contains(item, condition)) {
                   found = true
                   break
                 }
               }
             }
             if (!found) {
-              if (isObject(condition)) {
-                found = arrayIncludes(value, condition)
+              if (isObject(condition) || isContainer(condition)) {
+                found = arrayIncludes(items, condition)
               } else {
-                found = arrayIncludesShallow(value, condition)
+                found = arrayIncludesShallow(items, condition)
               }
             }
             if (!found) return false
@@ -165,14 +366,23 @@ export function matchesOperators(value: unknown, operators: unknown): boolean {
         }
 
         case '$between': {
+          const { coerceTypes } = context
           if (isArray(condition) && condition.length === 2) {
             const [min, max] = condition
-            if (!isBetween(value, min, max) && !isDateBetween(value, min, max))
+            if (
+              !isBetween(value, min, max, coerceTypes) &&
+              !isDateBetween(value, min, max, coerceTypes)
+            ) {
               return false
+            }
           } else if (isObject(condition)) {
             const { min, max } = condition as { min: unknown; max: unknown }
-            if (!isBetween(value, min, max) && !isDateBetween(value, min, max))
+            if (
+              !isBetween(value, min, max, coerceTypes) &&
+              !isDateBetween(value, min, max, coerceTypes)
+            ) {
               return false
+            }
           } else {
             return false
           }
@@ -186,15 +396,47 @@ export function matchesOperators(value: unknown, operators: unknown): boolean {
           break
         }
 
+        case '$type':
+          if (!matchesType(value, condition)) {
+            return false
+          }
+          break
+
+        case '$mod':
+          if (!matchesMod(value, condition)) {
+            return false
+          }
+          break
+
+        case '$bitsAllSet':
+        case '$bitsAnySet':
+        case '$bitsAllClear':
+          if (!matchesBits(value, operator, condition)) {
+            return false
+          }
+          break
+
         case '$all': {
-          if (!isArray(value) || !isArray(condition)) return false
-          if (!arrayContainsAll(value, condition)) return false
+          const items = isSet(value) ? Array.from(value) : value
+          if (!isArray(items) || !isArray(condition)) return false
+          if (!arrayContainsAll(items, condition)) return false
           break
         }
 
         case '$startsWith':
+        case '$endsWith':
           if (isString(value) && isString(condition)) {
-            if (!value.toLowerCase().startsWith(condition.toLowerCase())) {
+            const position = operator === '$startsWith' ? 'start' : 'end'
+            const collation = getCollation(ops, context)
+            const matched = collation
+              ? stringMatchesCollated(value, condition, position, collation)
+              : stringHasAffix(
+                  value,
+                  condition,
+                  position,
+                  isCaseSensitive(ops, context)
+                )
+            if (!matched) {
               return false
             }
           } else {
@@ -202,32 +444,56 @@ export function matchesOperators(value: unknown, operators: unknown): boolean {
           }
           break
 
-        case '$endsWith':
-          if (isString(value) && isString(condition)) {
-            if (!value.toLowerCase().endsWith(condition.toLowerCase())) {
-              return false
-            }
-          } else {
+        case '$regex': {
+          const matched = isRegExp(condition)
+            ? isString(value) && testRegExp(condition, value)
+            : isString(value) &&
+              isString(condition) &&
+              stringMatchesRegex(value, condition, getRegexFlags(ops, context))
+          if (!matched) {
             return false
           }
           break
+        }
 
-        case '$regex':
-          if (isString(value) && isString(condition)) {
-            try {
-              if (!stringMatchesRegex(value, condition, 'i')) return false
-            } catch (error) {
-              throw error
-            }
-          } else {
+        case '$fuzzy':
+          if (!matchesFuzzy(value, condition, getStringFold(ops, context))) {
+            return false
+          }
+          break
+
+        case '$caseSensitive':
+        case '$options':
+          // Modifiers of the string operators above
+          break
+
+        case '$withinLast':
+        case '$withinNext':
+        case '$sameDay':
+        case '$sameMonth':
+        case '$sameYear':
+        case '$year':
+        case '$month':
+        case '$dayOfMonth':
+        case '$dayOfWeek':
+        case '$hour':
+          if (!matchesCalendar(value, operator, condition, ops, context)) {
             return false
           }
           break
 
+        case '$timeZone':
+          // Modifier of the calendar operators above
+          break
+
         case '$size':
           if (typeof condition !== 'number' || condition < 0) return false
           if (isArray(value) || isString(value)) {
             if (value.length !== condition) return false
+          } else if (isSet(value)) {
+            if (value.size !== condition) {
+              return false
+            }
           } else {
             return false
           }
@@ -235,26 +501,36 @@ export function matchesOperators(value: unknown, operators: unknown): boolean {
 
         case '$elemMatch': {
           if (!isArray(value)) return false
-          const elementCondition = condition as Record<string, unknown>
-          for (let i = 0; i < value.length; i++) {
-            const element = value[i]
-            if (
-              isObject(element) &&
-              matchesConditions(element, elementCondition)
-            ) {
-              return true
-            }
+          if (
+            !value.some((element) =>
+              matchesElement(element, condition, context)
+            )
+          ) {
+            return false
           }
-          return false
+          break
         }
 
-        default:
-          continue
+        case '$not':
+        case '$or':
+        case '$and':
+          if (!matchesFieldLogical(value, operator, condition, context)) {
+            return false
+          }
+          break
+
+        default: {
+          const custom = context.operators.get(operator)
+          if (custom && !custom.evaluate(value, condition)) {
+            return false
+          }
+          break
+        }
       }
     } else {
       if (isObject(value)) {
         const objectValue = value[operator as keyof typeof value]
-        if (!matchesOperators(objectValue, condition)) return false
+        if (!matchesOperators(objectValue, condition, context)) return false
       } else {
         if (value !== condition) return false
       }
@@ -0,0 +1,31 @@
+const conditionModifiers = [
+  '$caseSensitive',
+  '$options',
+  '$collation',
+  '$timeZone',
+]
+
+/**
+ * Check whether a condition key configures the other operators of the
+ * condition instead of matching: `$caseSensitive`, `$options` regex flags,
+ * `$collation` or the `$timeZone` of the calendar operators
+ */
+export function isModifier(key: string): boolean {
+  return conditionModifiers.includes(key)
+}
+
+/**
+ * Get the modifiers of a condition, to keep them when its operators are
+ * evaluated one at a time
+ */
+export function getModifiers(
+  condition: Record<string, unknown>
+): Record<string, unknown> {
+  const modifiers: Record<string, unknown> = {}
+  for (const key of conditionModifiers) {
+    if (key in condition) {
+      modifiers[key] = condition[key]
+    }
+  }
+  return modifiers
+}
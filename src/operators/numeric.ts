@@ -0,0 +1,80 @@
+import { isArray, isBigInt, isNumber } from '../guards.js'
+
+/**
+ * BigInt of an integer number or a bigint, otherwise undefined
+ */
+function toBigInt(value: unknown): bigint | undefined {
+  if (isBigInt(value)) {
+    return value
+  }
+  return isNumber(value) && Number.isInteger(value) ? BigInt(value) : undefined
+}
+
+/**
+ * Check whether a value divided by a divisor leaves a remainder
+ * (`$mod: [divisor, remainder]`), with BigInt arithmetic if any is a bigint
+ */
+export function matchesMod(value: unknown, operand: unknown): boolean {
+  if (!isArray(operand) || operand.length !== 2) {
+    return false
+  }
+  const [divisor, remainder] = operand
+  if (isNumber(value) && isNumber(divisor) && isNumber(remainder)) {
+    return divisor !== 0 && value % divisor === remainder
+  }
+
+  const bigValue = toBigInt(value)
+  const bigDivisor = toBigInt(divisor)
+  const bigRemainder = toBigInt(remainder)
+  if (
+    bigValue === undefined ||
+    bigDivisor === undefined ||
+    bigRemainder === undefined ||
+    bigDivisor === BigInt(0)
+  ) {
+    return false
+  }
+  return bigValue % bigDivisor === bigRemainder
+}
+
+/**
+ * Bitmask of a `$bits` operand: a mask, or the positions of the bits
+ */
+function getBitMask(operand: unknown): bigint | undefined {
+  if (!isArray(operand)) {
+    return toBigInt(operand)
+  }
+  let mask = BigInt(0)
+  for (const position of operand) {
+    if (!isNumber(position) || !Number.isInteger(position) || position < 0) {
+      return undefined
+    }
+    mask |= BigInt(1) << BigInt(position)
+  }
+  return mask
+}
+
+/**
+ * Check the bits of an integer or bigint against a mask: `$bitsAllSet`,
+ * `$bitsAnySet` or `$bitsAllClear`. Negative values use two's complement.
+ */
+export function matchesBits(
+  value: unknown,
+  operator: string,
+  operand: unknown
+): boolean {
+  const bits = toBigInt(value)
+  const mask = getBitMask(operand)
+  if (bits === undefined || mask === undefined) {
+    return false
+  }
+  const masked = bits & mask
+  switch (operator) {
+    case '$bitsAllSet':
+      return masked === mask
+    case '$bitsAnySet':
+      return masked !== BigInt(0)
+    default:
+      return masked === BigInt(0)
+  }
+}
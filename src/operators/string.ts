@@ -1,4 +1,6 @@
-import { getCachedRegex } from '../cache.js'
+import { getCachedCollator, getCachedRegex } from '../cache.js'
+import { isObject, isString } from '../guards.js'
+import type { Collation, QueryContext } from '../types.js'
 
 /**
  * Fast case-sensitive string contains check
@@ -28,3 +30,219 @@ export function stringMatchesRegex(
   const regex = getCachedRegex(pattern, flags)
   return regex.test(str)
 }
+
+/**
+ * Check whether the string operators of a condition match case:
+ * `$caseSensitive` if set, otherwise the default of the context
+ */
+export function isCaseSensitive(
+  condition: Record<string, unknown>,
+  context: QueryContext
+): boolean {
+  return typeof condition.$caseSensitive === 'boolean'
+    ? condition.$caseSensitive
+    : context.caseSensitive === true
+}
+
+/**
+ * Flags of a `$regex` pattern: the `$options` of the condition, plus `i`
+ * unless the condition is case-sensitive
+ */
+export function getRegexFlags(
+  condition: Record<string, unknown>,
+  context: QueryContext
+): string {
+  const options = isString(condition.$options) ? condition.$options : ''
+  return isCaseSensitive(condition, context) || options.includes('i')
+    ? options
+    : `${options}i`
+}
+
+/**
+ * Test a string against a regex from a query, from the start of the string
+ * even for global and sticky regexes
+ */
+export function testRegExp(regex: RegExp, str: string): boolean {
+  regex.lastIndex = 0
+  return regex.test(str)
+}
+
+/**
+ * Check whether a string starts or ends with an affix
+ */
+export function stringHasAffix(
+  str: string,
+  affix: string,
+  position: 'start' | 'end',
+  caseSensitive: boolean
+): boolean {
+  const value = caseSensitive ? str : str.toLowerCase()
+  const expected = caseSensitive ? affix : affix.toLowerCase()
+  return position === 'start'
+    ? value.startsWith(expected)
+    : value.endsWith(expected)
+}
+
+/**
+ * Fold strings for comparison under the modifiers of a condition:
+ * `$collation`, else `$caseSensitive`, else lower case
+ */
+export function getStringFold(
+  condition: Record<string, unknown>,
+  context: QueryContext
+): (str: string) => string {
+  const collation = getCollation(condition, context)
+  if (collation) {
+    return (str) => foldString(str, collation)
+  }
+  return isCaseSensitive(condition, context)
+    ? (str) => str
+    : (str) => str.toLowerCase()
+}
+
+/**
+ * Collation of the string operators of a condition: `$collation` if set,
+ * otherwise the default of the context
+ */
+export function getCollation(
+  condition: Record<string, unknown>,
+  context: QueryContext
+): Collation | undefined {
+  return isObject(condition.$collation)
+    ? (condition.$collation as Collation)
+    : context.collation
+}
+
+// Combining diacritical marks left by NFD normalization, e.g. the umlaut of "ü"
+const combiningMarks = /[\u0300-\u036f]/g
+
+/**
+ * Fold a string so that strings equal under a collation are identical:
+ * accents are removed unless the sensitivity keeps them, and case is
+ * lowered for the locale (Turkish dotted I included) unless it keeps case
+ */
+export function foldString(str: string, collation: Collation): string {
+  const sensitivity = collation.sensitivity ?? 'base'
+  const keepAccents = sensitivity === 'accent' || sensitivity === 'variant'
+  const keepCase = sensitivity === 'case' || sensitivity === 'variant'
+  // Lower case first, the dot of Turkish "İ" decides its lower case form
+  const lowered = keepCase
+    ? str.normalize('NFC')
+    : str.normalize('NFC').toLocaleLowerCase(collation.locale)
+  return keepAccents
+    ? lowered
+    : lowered.normalize('NFD').replace(combiningMarks, '').normalize('NFC')
+}
+
+/**
+ * Check whether two strings are equal under a collation
+ */
+export function stringEqualsCollated(
+  a: string,
+  b: string,
+  collation: Collation
+): boolean {
+  const collator = getCachedCollator(
+    collation.locale,
+    collation.sensitivity ?? 'base'
+  )
+  return collator.compare(a, b) === 0
+}
+
+// Strings equal under a collation differ in length by expansions such as
+// "ß" and "ss" or "ﬃ" and "ffi"
+const maxExpansion = 3
+
+// Letters that collate like letter sequences or like base letters without
+// decomposing to them, e.g. "ß" like "ss", "æ" like "ae", "ø" like "o",
+// and the ligatures "ﬀ" to "ﬆ"
+const unfoldedLetters =
+  /[\u00c6\u00d0\u00d8\u00de\u00df\u00e6\u00f0\u00f8\u00fe\u0110\u0111\u0126\u0127\u0131\u0141\u0142\u0152\u0153\u0166\u0167\ufb00-\ufb06]/
+
+/**
+ * Check whether a string contains, starts or ends with another
+ */
+function stringMatchesAt(
+  str: string,
+  search: string,
+  position: 'start' | 'end' | 'any'
+): boolean {
+  return position === 'start'
+    ? str.startsWith(search)
+    : position === 'end'
+      ? str.endsWith(search)
+      : str.includes(search)
+}
+
+/**
+ * Offsets at which a character starts, skipping combining diacritical marks
+ * and the second half of surrogate pairs, followed by the length of the string
+ */
+function getCharBoundaries(str: string): number[] {
+  const boundaries: number[] = []
+  let offset = 0
+  for (const char of str) {
+    if (!/^[\u0300-\u036f]/.test(char)) {
+      boundaries.push(offset)
+    }
+    offset += char.length
+  }
+  boundaries.push(str.length)
+  return boundaries
+}
+
+/**
+ * Check whether a string contains, starts or ends with another under a
+ * collation. Both strings are folded first, and only strings with letters
+ * that folding cannot reduce (such as "ß" or "æ") are compared window by
+ * window with the collator, so that the operators agree with collated equality
+ */
+export function stringMatchesCollated(
+  str: string,
+  search: string,
+  position: 'start' | 'end' | 'any',
+  collation: Collation
+): boolean {
+  const folded = foldString(str, collation)
+  const foldedSearch = foldString(search, collation)
+  if (stringMatchesAt(folded, foldedSearch, position)) {
+    return true
+  }
+  if (!unfoldedLetters.test(folded) && !unfoldedLetters.test(foldedSearch)) {
+    return false
+  }
+
+  const collator = getCachedCollator(
+    collation.locale,
+    collation.sensitivity ?? 'base'
+  )
+  const value = str.normalize('NFC')
+  const expected = search.normalize('NFC')
+
+  const minLength = Math.ceil(expected.length / maxExpansion)
+  const maxLength = expected.length * maxExpansion
+  const boundaries = getCharBoundaries(value)
+  const last = boundaries.length - 1
+
+  for (let i = 0; i < last; i++) {
+    const start = boundaries[i]
+    if (position === 'start' && start > 0) {
+      break
+    }
+    for (let j = i + 1; j <= last; j++) {
+      const end = boundaries[j]
+      const length = end - start
+      if (length > maxLength) {
+        break
+      }
+      if (
+        length >= minLength &&
+        (position !== 'end' || end === value.length) &&
+        collator.compare(value.slice(start, end), expected) === 0
+      ) {
+        return true
+      }
+    }
+  }
+  return false
+}
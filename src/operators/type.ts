@@ -0,0 +1,54 @@
+import { isArray, isDate, isNull, isString } from '../guards.js'
+import type { ValueType } from '../types.js'
+
+/**
+ * Type names accepted by `$type`
+ */
+export const valueTypes: readonly ValueType[] = [
+  'string',
+  'number',
+  'date',
+  'array',
+  'object',
+  'null',
+  'boolean',
+  'bigint',
+]
+
+/**
+ * Check whether a value is a type name accepted by `$type`
+ */
+export function isValueType(value: unknown): value is ValueType {
+  return isString(value) && valueTypes.includes(value as ValueType)
+}
+
+/**
+ * Type name of a value, undefined for missing values and other types
+ * (functions, symbols)
+ */
+export function getValueType(value: unknown): ValueType | undefined {
+  if (isNull(value)) {
+    return 'null'
+  }
+  if (isDate(value)) {
+    return 'date'
+  }
+  if (isArray(value)) {
+    return 'array'
+  }
+  const type = typeof value
+  return type === 'undefined' || type === 'function' || type === 'symbol'
+    ? undefined
+    : type
+}
+
+/**
+ * Check whether a value is of a type, or of any of several types
+ */
+export function matchesType(value: unknown, operand: unknown): boolean {
+  const type = getValueType(value)
+  if (type === undefined) {
+    return false
+  }
+  return isArray(operand) ? operand.includes(type) : operand === type
+}
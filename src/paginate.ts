@@ -0,0 +1,225 @@
+import { getValueByPath } from './utils.js'
+import { isEqual, isNumber } from './guards.js'
+import { compareSortValues, createSortKeys } from './sort.js'
+import { defaultContext } from './context.js'
+import type {
+  ObjectQuery,
+  Page,
+  QueryContext,
+  QueryCursor,
+  SortDirection,
+} from './types.js'
+import type { OrderBy, SortKey } from './sort.js'
+
+type PaginationOptions<T> = Pick<
+  ObjectQuery<T>,
+  'where' | 'orderBy' | 'skip' | 'take' | 'cursor'
+>
+
+/**
+ * Normalize a skip/take value to a non-negative integer
+ */
+function toCount(value: unknown): number | undefined {
+  if (!isNumber(value) || isNaN(value)) {
+    return undefined
+  }
+  return Math.max(0, Math.floor(value))
+}
+
+/**
+ * Sort order of a query including its cursor fields.
+ * Cursor fields missing from orderBy are appended in ascending order,
+ * so they break ties between items with equal sort values.
+ */
+export function getSeekOrder<T extends object>(
+  query: Pick<ObjectQuery<T>, 'orderBy' | 'cursor'>
+): OrderBy<T> | undefined {
+  const { orderBy, cursor } = query
+  const fields = Object.keys(cursor ?? {}).filter(
+    (field) => field !== '$ties' && (!orderBy || !(field in orderBy))
+  )
+  if (fields.length === 0) {
+    return orderBy
+  }
+
+  const order: Record<string, SortDirection> = { ...orderBy }
+  for (const field of fields) {
+    order[field] = 'asc'
+  }
+  return order
+}
+
+/**
+ * Compare the sort key values of an item with cursor values
+ */
+function compareKey(
+  keys: SortKey[],
+  item: object,
+  values: readonly unknown[]
+): number {
+  for (let i = 0; i < keys.length; i++) {
+    const { read, direction } = keys[i]
+    const comparison = compareSortValues(
+      read(item as Record<string, unknown>),
+      values[i],
+      direction
+    )
+    if (comparison !== 0) {
+      return comparison
+    }
+  }
+  return 0
+}
+
+/**
+ * Find the index of the first item sorting after the cursor.
+ * A cursor holding every sort key seeks by value, so the cursor item itself
+ * does not need to exist anymore. With `$ties`, it seeks past that many items
+ * sorting equal to the cursor values instead of all of them. A cursor lacking
+ * orderBy fields seeks past the item whose fields equal the cursor values,
+ * or to the end without one.
+ */
+export function findCursorIndex<T extends object>(
+  items: T[],
+  query: PaginationOptions<T> & { cursor: QueryCursor<T> },
+  context: QueryContext = defaultContext
+): number {
+  const { $ties: ties, ...cursor } = query.cursor as Record<string, unknown>
+  const keys = createSortKeys(getSeekOrder(query) ?? {}, query.where, context)
+
+  if (keys.some(({ field }) => !(field in cursor))) {
+    const entries = Object.entries(cursor)
+    const index = items.findIndex((item) =>
+      entries.every(([path, value]) =>
+        isEqual(getValueByPath(item, path), value)
+      )
+    )
+    return index === -1 ? items.length : index + 1
+  }
+
+  const values = keys.map(({ field, normalize }) => normalize(cursor[field]))
+  const skipped = toCount(ties)
+  if (skipped === undefined) {
+    const index = items.findIndex((item) => compareKey(keys, item, values) > 0)
+    return index === -1 ? items.length : index
+  }
+
+  let index = items.findIndex((item) => compareKey(keys, item, values) >= 0)
+  if (index === -1) {
+    return items.length
+  }
+  const end = index + skipped
+  while (index < end && index < items.length) {
+    if (compareKey(keys, items[index], values) !== 0) {
+      break
+    }
+    index++
+  }
+  return index
+}
+
+/**
+ * Resolve the index of the first item on the page
+ */
+function getPageStart<T extends object>(
+  items: T[],
+  query: PaginationOptions<T>,
+  context: QueryContext
+): number {
+  const { skip, cursor } = query
+  let start = 0
+
+  if (cursor && Object.keys(cursor).length > 0) {
+    start = findCursorIndex(items, { ...query, cursor }, context)
+  }
+
+  return start + (toCount(skip) ?? 0)
+}
+
+/**
+ * Apply cursor, skip and take to a list filtered and sorted by getSeekOrder
+ */
+export function applyPagination<T extends object>(
+  items: T[],
+  options: PaginationOptions<T>,
+  context: QueryContext = defaultContext
+): T[] {
+  const { skip, take, cursor } = options
+  if (skip === undefined && take === undefined && cursor === undefined) {
+    return items
+  }
+
+  const start = getPageStart(items, options, context)
+  const count = toCount(take)
+  return items.slice(start, count === undefined ? undefined : start + count)
+}
+
+/**
+ * Pick the sort key values of the last item on a page, which ends before
+ * `end`. When they do not tell it apart from the next item, `$ties` counts
+ * the items with the same values up to the end of the page, which the stable
+ * sort keeps in source order.
+ */
+function buildCursor<T extends object>(
+  items: T[],
+  end: number,
+  query: ObjectQuery<T>,
+  context: QueryContext
+): QueryCursor<T> | undefined {
+  const keys = createSortKeys(getSeekOrder(query) ?? {}, query.where, context)
+  if (keys.length === 0) {
+    return undefined
+  }
+
+  const item = items[end - 1]
+
+  const cursor: Record<string, unknown> = {}
+  const values: unknown[] = []
+  for (const { field, read, normalize } of keys) {
+    // Sort keys such as $textScore are not fields of the item
+    const value =
+      field.charAt(0) === '$'
+        ? read(item as Record<string, unknown>)
+        : getValueByPath(item, field)
+    cursor[field] = value
+    values.push(normalize(value))
+  }
+
+  if (compareKey(keys, items[end], values) <= 0) {
+    let start = end - 1
+    while (start > 0 && compareKey(keys, items[start - 1], values) === 0) {
+      start--
+    }
+    cursor.$ties = end - start
+  }
+  return cursor as QueryCursor<T>
+}
+
+/**
+ * Build a page with navigation metadata from a list filtered and sorted
+ * by getSeekOrder
+ */
+export function buildPage<T extends object>(
+  items: T[],
+  query: ObjectQuery<T>,
+  context: QueryContext = defaultContext
+): Page<T> {
+  const start = Math.min(getPageStart(items, query, context), items.length)
+  const count = toCount(query.take)
+  const end =
+    count === undefined ? items.length : Math.min(start + count, items.length)
+  const pageItems = items.slice(start, end)
+  const hasNextPage = end < items.length
+  const lastItem = pageItems[pageItems.length - 1]
+
+  return {
+    items: pageItems,
+    hasNextPage,
+    hasPreviousPage: start > 0,
+    nextCursor:
+      hasNextPage && lastItem !== undefined
+        ? buildCursor(items, end, query, context)
+        : undefined,
+    totalCount: items.length,
+  }
+}
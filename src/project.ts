@@ -0,0 +1,122 @@
+import { isArray, isDate, isObject } from './guards.js'
+
+/**
+ * Nested map of path segments, `true` marks the end of a path
+ */
+type PathTree = { [segment: string]: PathTree | true }
+
+const pathTreeCache = new WeakMap<readonly string[], PathTree>()
+
+/**
+ * Build a segment tree from dot paths.
+ * A shorter path wins over longer paths sharing its prefix.
+ */
+function buildPathTree(paths: readonly string[]): PathTree {
+  let tree = pathTreeCache.get(paths)
+  if (tree) {
+    return tree
+  }
+
+  tree = {}
+  for (const path of paths) {
+    const parts = path.split('.')
+    let node = tree
+    for (let i = 0; i < parts.length; i++) {
+      const part = parts[i]
+      const existing = node[part]
+      if (existing === true) {
+        break
+      }
+      if (i === parts.length - 1) {
+        node[part] = true
+      } else {
+        node = existing ?? (node[part] = {})
+      }
+    }
+  }
+
+  pathTreeCache.set(paths, tree)
+  return tree
+}
+
+function pickTree(value: unknown, tree: PathTree): unknown {
+  if (isArray(value)) {
+    return value.map((item) => pickTree(item, tree))
+  }
+  if (!isObject(value) || isDate(value)) {
+    return value
+  }
+
+  const result: Record<string, unknown> = {}
+  for (const key in tree) {
+    if (!(key in value)) {
+      continue
+    }
+    const node = tree[key]
+    result[key] = node === true ? value[key] : pickTree(value[key], node)
+  }
+  return result
+}
+
+function omitTree(value: unknown, tree: PathTree): unknown {
+  if (isArray(value)) {
+    return value.map((item) => omitTree(item, tree))
+  }
+  if (!isObject(value) || isDate(value)) {
+    return value
+  }
+
+  const result: Record<string, unknown> = {}
+  for (const key in value) {
+    const node = tree[key]
+    if (node === true) {
+      continue
+    }
+    result[key] = node ? omitTree(value[key], node) : value[key]
+  }
+  return result
+}
+
+/**
+ * Copy an object keeping only the given paths (nested shape kept)
+ */
+export function pickPaths<T extends object>(
+  obj: T,
+  paths: readonly string[]
+): Partial<T> {
+  return pickTree(obj, buildPathTree(paths)) as Partial<T>
+}
+
+/**
+ * Copy an object without the given paths (nested shape kept)
+ */
+export function omitPaths<T extends object>(
+  obj: T,
+  paths: readonly string[]
+): Partial<T> {
+  return omitTree(obj, buildPathTree(paths)) as Partial<T>
+}
+
+/**
+ * Apply select/omit clauses to a list of results
+ */
+export function applyProjection<T extends object>(
+  items: T[],
+  select?: readonly string[],
+  omit?: readonly string[]
+): T[] {
+  if (!select && !omit) {
+    return items
+  }
+
+  return items.map((item) => {
+    let result: object = item
+    if (select) {
+      result = pickPaths(result, select)
+    }
+    if (omit) {
+      result = omitPaths(result, omit)
+    }
+    return result as T
+  })
+}
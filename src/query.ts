@@ -1,25 +1,67 @@
-import { matchesFilter, getValueByPath } from './utils'
+import { matchesFilter } from './utils'
 import { applySorting } from './sort'
-import { isArray, isObject } from './guards'
-import type { ObjectQuery, Collection } from './types'
+import { applyPagination, buildPage, getSeekOrder } from './paginate'
+import { applyProjection } from './project'
+import { isCompiledQuery } from './compile'
+import { validateQuery } from './validate'
+import { isIndexedCollection, selectCandidates } from './collection'
+import { defaultContext } from './context'
+import { getDateHint } from './schema'
+import {
+  isArray,
+  isBigIntEqual,
+  isContainer,
+  isObject,
+  isString,
+} from './guards'
+import type {
+  CompiledQuery,
+  ObjectQuery,
+  ObjectFilter,
+  Page,
+  Projection,
+  QueryContext,
+  QueryPath,
+  QuerySource,
+} from './types'
 
 /**
- * Find multiple objects matching query criteria
- *
- * @param objects - Array of objects to search through
- * @param query - Query configuration with where/orderBy clauses
- * @returns Array of matching objects in specified order
- *
+ * Check whether a where clause is a single top-level field compared to a primitive,
+ * which is matched without going through matchesFilter. Strings compared under
+ * the collation of the context are not.
+ */
+export function isPrimitiveEquality(
+  where: unknown,
+  context: QueryContext = defaultContext
+): boolean {
+  if (!isObject(where)) {
+    return false
+  }
+  const keys = Object.keys(where)
+  if (keys.length !== 1) {
+    return false
+  }
+  const field = keys[0]
+  const cond = where[field]
+  return (
+    !field.includes('.') &&
+    // `$` keys may be logical operators registered with an engine
+    field.charCodeAt(0) !== 36 &&
+    (cond === null ||
+      (!isObject(cond) && !isArray(cond) && !isContainer(cond))) &&
+    !(context.collation && isString(cond)) &&
+    !getDateHint(field, context)
+  )
+}
+
+/**
+ * Filter objects by a where clause, keeping their original order
  */
-export function findMany<T extends object>(
+function filterObjects<T extends object>(
   objects: T[],
-  query: ObjectQuery<T> = {}
+  where: ObjectFilter<T> | ObjectFilter<T>[],
+  context: QueryContext
 ): T[] {
-  const { where = {}, orderBy } = query
-
-  // Early exit for empty datasets
-  if (!objects || objects.length === 0) return []
-
   // Helper function to filter array with AND conditions
   const filterArrayConditions = (whereArray: unknown[]): T[] => {
     const result: T[] = []
@@ -30,7 +72,8 @@ export function findMany<T extends object>(
         if (
           !matchesFilter(
             obj as Record<string, unknown>,
-            whereArray[j] as Record<string, unknown>
+            whereArray[j] as Record<string, unknown>,
+            context
           )
         ) {
           matchesAll = false
@@ -47,7 +90,7 @@ export function findMany<T extends object>(
     const result: T[] = []
     for (let i = 0; i < objects.length; i++) {
       const obj = objects[i]
-      if (matchesFilter(obj as Record<string, unknown>, whereObj)) {
+      if (matchesFilter(obj as Record<string, unknown>, whereObj, context)) {
         result.push(obj)
       }
     }
@@ -66,14 +109,11 @@ export function findMany<T extends object>(
       const cond = (where as Record<string, unknown>)[field]
 
       // Single-field primitive equality optimization
-      if (
-        !field.includes('.') &&
-        (cond === null || (!isObject(cond) && !isArray(cond)))
-      ) {
+      if (isPrimitiveEquality(where, context)) {
         result = []
         for (let i = 0; i < objects.length; i++) {
           const obj = objects[i] as Record<string, unknown>
-          if (obj[field] === cond) {
+          if (obj[field] === cond || isBigIntEqual(obj[field], cond)) {
             result.push(objects[i])
           }
         }
@@ -90,23 +130,217 @@ export function findMany<T extends object>(
     result = [...objects]
   }
 
-  return applySorting(result, orderBy)
+  return result
 }
 
 /**
- * Find the first object matching the query criteria
- * @param objects - Array of objects to search
- * @param query - Optional query to filter objects
- * @returns The first object that matches the query, or undefined if not found
+ * Filter and sort objects with a plain or compiled query
  */
-export function findFirst<T extends object>(
+function filterAndSort<
+  T extends object,
+  S extends QueryPath<T>,
+  O extends QueryPath<T>,
+>(
   objects: T[],
-  query: ObjectQuery<T> = {}
-): T | undefined {
+  query: ObjectQuery<T, S, O> | CompiledQuery<T, S, O>,
+  context: QueryContext
+): T[] {
+  if (isCompiledQuery(query)) {
+    const result = objects.filter(query.matches)
+    return query.compare ? result.sort(query.compare) : result
+  }
+
   const { where = {} } = query
+  return applySorting(
+    filterObjects(objects, where, context),
+    getSeekOrder(query),
+    where,
+    context
+  )
+}
+
+/**
+ * Get the query configuration behind a plain or compiled query
+ */
+function getQuery<T, S extends QueryPath<T>, O extends QueryPath<T>>(
+  query: ObjectQuery<T, S, O> | CompiledQuery<T, S, O>
+): ObjectQuery<T, S, O> {
+  return isCompiledQuery(query) ? query.query : query
+}
 
-  if (!objects || objects.length === 0) return undefined
+/**
+ * Get the query configuration to run, validating plain queries in strict mode.
+ * Compiled queries were validated by compileQuery.
+ */
+function resolveQuery<T, S extends QueryPath<T>, O extends QueryPath<T>>(
+  query: ObjectQuery<T, S, O> | CompiledQuery<T, S, O>,
+  context: QueryContext
+): ObjectQuery<T, S, O> {
+  if (isCompiledQuery(query)) {
+    return query.query
+  }
+  if (query.strict) {
+    validateQuery(query, context)
+  }
+  return query
+}
 
+/**
+ * Objects to scan for a where clause, narrowed by collection indexes when possible
+ */
+function selectObjects<T extends object>(
+  objects: QuerySource<T>,
+  where: ObjectFilter<T> | ObjectFilter<T>[] | undefined,
+  context: QueryContext
+): T[] {
+  if (!objects) {
+    return []
+  }
+  return isIndexedCollection(objects)
+    ? selectCandidates(objects, where, context).items
+    : objects
+}
+
+/**
+ * Filter, sort and page objects without projecting them
+ */
+export function queryObjects<
+  T extends object,
+  S extends QueryPath<T> = QueryPath<T>,
+  O extends QueryPath<T> = QueryPath<T>,
+>(
+  objects: QuerySource<T>,
+  query: ObjectQuery<T, S, O> | CompiledQuery<T, S, O>,
+  context: QueryContext = defaultContext
+): T[] {
+  const config = resolveQuery(query, context)
+  const candidates = selectObjects(objects, config.where, context)
+
+  // Early exit for empty datasets
+  if (candidates.length === 0) {
+    return []
+  }
+
+  return applyPagination(
+    filterAndSort(candidates, query, context),
+    config,
+    context
+  )
+}
+
+/**
+ * Find multiple objects matching query criteria
+ *
+ * @param objects - Array of objects or indexed collection to search through
+ * @param query - Query configuration with where/orderBy/skip/take/cursor/select/omit clauses,
+ * or a query prepared with compileQuery
+ * @param context - Operators of an engine (see createEngine), built-in operators by default
+ * @returns Array of matching objects in specified order, projected by select/omit
+ *
+ */
+export function findMany<
+  T extends object,
+  S extends QueryPath<T> = never,
+  O extends QueryPath<T> = never,
+>(
+  objects: QuerySource<T>,
+  query: ObjectQuery<T, S, O> | CompiledQuery<T, S, O> = {},
+  context: QueryContext = defaultContext
+): Projection<T, S, O>[] {
+  const { select, omit } = getQuery(query)
+  const result = applyProjection(
+    queryObjects(objects, query, context),
+    select,
+    omit
+  )
+  return result as Projection<T, S, O>[]
+}
+
+/**
+ * Find one page of objects matching query criteria
+ *
+ * @param objects - Array of objects or indexed collection to search through
+ * @param query - Query configuration with where/orderBy/skip/take/cursor/select/omit clauses,
+ * or a query prepared with compileQuery
+ * @param context - Operators of an engine (see createEngine), built-in operators by default
+ * @returns The page items together with navigation metadata
+ */
+export function findPage<
+  T extends object,
+  S extends QueryPath<T> = never,
+  O extends QueryPath<T> = never,
+>(
+  objects: QuerySource<T>,
+  query: ObjectQuery<T, S, O> | CompiledQuery<T, S, O> = {},
+  context: QueryContext = defaultContext
+): Page<Projection<T, S, O>> {
+  const config = resolveQuery(query, context)
+  const candidates = selectObjects(objects, config.where, context)
+
+  const result =
+    candidates.length === 0 ? [] : filterAndSort(candidates, query, context)
+  const page = buildPage(result, config, context)
+
+  return {
+    ...page,
+    items: applyProjection(page.items, config.select, config.omit),
+  } as Page<Projection<T, S, O>>
+}
+
+/**
+ * Find the first object matching the query criteria
+ * @param objects - Array of objects or indexed collection to search
+ * @param query - Optional query to filter objects, plain or prepared with compileQuery
+ * @param context - Operators of an engine (see createEngine), built-in operators by default
+ * @returns The first object that matches the query, or undefined if not found
+ *
+ * When `skip` or `cursor` is given, the first item of the sorted page is returned.
+ */
+export function findFirst<
+  T extends object,
+  S extends QueryPath<T> = never,
+  O extends QueryPath<T> = never,
+>(
+  objects: QuerySource<T>,
+  query: ObjectQuery<T, S, O> | CompiledQuery<T, S, O> = {},
+  context: QueryContext = defaultContext
+): Projection<T, S, O> | undefined {
+  const config = resolveQuery(query, context)
+  const candidates = selectObjects(objects, config.where, context)
+
+  if (candidates.length === 0) {
+    return undefined
+  }
+
+  if (config.skip !== undefined || config.cursor !== undefined) {
+    const page = applyPagination(
+      filterAndSort(candidates, query, context),
+      { ...config, take: 1 },
+      context
+    )
+    return applyProjection(page, config.select, config.omit)[0] as
+      Projection<T, S, O> | undefined
+  }
+
+  const found = isCompiledQuery(query)
+    ? candidates.find(query.matches)
+    : findFirstObject(candidates, config.where ?? {}, context)
+  if (found === undefined) {
+    return undefined
+  }
+
+  const [projected] = applyProjection([found], config.select, config.omit)
+  return projected as Projection<T, S, O>
+}
+
+/**
+ * Find the first object matching a where clause by scanning in order
+ */
+function findFirstObject<T extends object>(
+  objects: T[],
+  where: ObjectFilter<T> | ObjectFilter<T>[],
+  context: QueryContext
+): T | undefined {
   // Helper function for array conditions
   const findFirstInArray = (whereArray: unknown[]): T | undefined => {
     for (let i = 0; i < objects.length; i++) {
@@ -116,7 +350,8 @@ export function findFirst<T extends object>(
         if (
           !matchesFilter(
             obj as Record<string, unknown>,
-            whereArray[j] as Record<string, unknown>
+            whereArray[j] as Record<string, unknown>,
+            context
           )
         ) {
           matchesAll = false
@@ -138,7 +373,8 @@ export function findFirst<T extends object>(
       if (
         matchesFilter(
           obj as Record<string, unknown>,
-          where as Record<string, unknown>
+          where as Record<string, unknown>,
+          context
         )
       ) {
         return obj
@@ -147,37 +383,3 @@ export function findFirst<T extends object>(
     return undefined
   }
 }
-
-/**
- * Group objects by a specific field
- * @param objects - Array of objects to group
- * @param field - Field to group by (e.g., "category")
- * @param query - Optional query to filter objects before grouping
- * @returns Array of grouped objects, each with a name and items
- */
-export function groupBy<T extends object>(
-  objects: T[],
-  field: string,
-  query: ObjectQuery<T> = {}
-): Collection<T>[] {
-  if (!objects || objects.length === 0) return []
-
-  const filteredObjects = findMany(objects, query)
-
-  if (filteredObjects.length === 0) return []
-
-  const groups: Record<string, T[]> = {}
-
-  for (const obj of filteredObjects) {
-    const groupVal = getValueByPath(obj, field)
-    const groupKey = String(groupVal ?? 'undefined')
-
-    if (!groups[groupKey]) groups[groupKey] = []
-    groups[groupKey].push(obj)
-  }
-
-  return Object.entries(groups).map(([name, items]) => ({
-    name,
-    items,
-  }))
-}
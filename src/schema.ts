@@ -0,0 +1,121 @@
+import { isCollectedValues, markCollectedValues } from './operators/array'
+import { getTimeZone, isTemporalLike, toDate } from './operators/date'
+import { isArray, isDate, isObject } from './guards'
+import type { DateHint, QueryContext } from './types'
+
+/**
+ * Values stored at a date path and the condition on it, converted to dates
+ */
+export type DateNormalizer = {
+  condition: unknown
+  normalize: (value: unknown) => unknown
+}
+
+// Operators whose operands are compared with the date
+const dateOperands = [
+  '$eq',
+  '$ne',
+  '$gt',
+  '$gte',
+  '$lt',
+  '$lte',
+  '$sameDay',
+  '$sameMonth',
+  '$sameYear',
+]
+
+// Operators whose operands are lists of dates
+const dateListOperands = ['$in', '$nin', '$between']
+
+/**
+ * Date hint of a path in the schema of the context
+ */
+export function getDateHint(
+  path: string,
+  context: QueryContext
+): DateHint | undefined {
+  const dates = context.schema?.dates
+  return dates && Object.prototype.hasOwnProperty.call(dates, path)
+    ? dates[path]
+    : undefined
+}
+
+/**
+ * Convert a value stored at a date path to a Date, including the values
+ * collected through arrays. Values that are not dates are kept.
+ */
+export function normalizeDateValue(
+  value: unknown,
+  hint: DateHint,
+  timeZone: string
+): unknown {
+  if (isCollectedValues(value)) {
+    return markCollectedValues(
+      value.map((item) => normalizeDateValue(item, hint, timeZone))
+    )
+  }
+  return toDate(value, hint, timeZone) ?? value
+}
+
+/**
+ * Convert the operands of a condition on a date path to dates
+ */
+function normalizeDateCondition(
+  condition: unknown,
+  hint: DateHint,
+  timeZone: string
+): unknown {
+  const normalize = (operand: unknown) =>
+    normalizeDateValue(operand, hint, timeZone)
+  if (!isObject(condition) || isDate(condition) || isTemporalLike(condition)) {
+    return normalize(condition)
+  }
+
+  const result: Record<string, unknown> = {}
+  for (const [operator, operand] of Object.entries(condition)) {
+    if (dateOperands.includes(operator)) {
+      result[operator] = normalize(operand)
+    } else if (dateListOperands.includes(operator) && isArray(operand)) {
+      result[operator] = operand.map(normalize)
+    } else if (operator === '$between' && isObject(operand)) {
+      result[operator] = {
+        min: normalize(operand.min),
+        max: normalize(operand.max),
+      }
+    } else if (operator === '$not') {
+      result[operator] = normalizeDateCondition(operand, hint, timeZone)
+    } else if (
+      (operator === '$or' || operator === '$and') &&
+      isArray(operand)
+    ) {
+      result[operator] = operand.map((branch) =>
+        normalizeDateCondition(branch, hint, timeZone)
+      )
+    } else {
+      result[operator] = operand
+    }
+  }
+  return result
+}
+
+/**
+ * Normalizer of a condition on a path the schema declares as a date path,
+ * undefined for other paths
+ */
+export function getDateNormalizer(
+  path: string,
+  condition: unknown,
+  context: QueryContext
+): DateNormalizer | undefined {
+  const hint = getDateHint(path, context)
+  if (!hint) {
+    return undefined
+  }
+  const timeZone = isObject(condition)
+    ? getTimeZone(condition, context)
+    : (context.timeZone ?? 'UTC')
+  return {
+    condition: normalizeDateCondition(condition, hint, timeZone),
+    normalize: (value) => normalizeDateValue(value, hint, timeZone),
+  }
+}
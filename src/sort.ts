@@ -1,37 +1,242 @@
-import { getValueByPath, compareValues } from './utils.js'
+import { getPathAccessor, compareValues } from './utils.js'
+import { isCollectedValues } from './operators/array.js'
 import { isNullOrUndefined } from './guards.js'
-import type { SortDirection } from './types.js'
+import { findTextSearch, textScore } from './text.js'
+import { getDateHint, normalizeDateValue } from './schema.js'
+import { defaultContext } from './context.js'
+import { findFuzzyConditions, fuzzyScore } from './operators/fuzzy.js'
+import type { FuzzyModifiers } from './operators/fuzzy.js'
+import type {
+  FuzzyOptions,
+  QueryContext,
+  SortDirection,
+  TextSearch,
+} from './types.js'
 
-export function applySorting<T extends object>(
-  items: T[],
-  orderBy?:
-    | Partial<{ [K in keyof T]: SortDirection }>
-    | Record<string, SortDirection>
-): T[] {
-  if (!orderBy) return items
+export type OrderBy<T> =
+  Partial<{ [K in keyof T]: SortDirection }> | Record<string, SortDirection>
 
-  const orderEntries = Object.entries(orderBy)
-  if (orderEntries.length === 0) return items
+/**
+ * Sort value of the values collected through arrays along a path:
+ * the smallest for ascending, the largest for descending order
+ */
+function getSortValue(value: unknown, direction: SortDirection): unknown {
+  if (!isCollectedValues(value)) {
+    return value
+  }
+  let result: unknown
+  for (const item of value) {
+    if (isNullOrUndefined(item)) {
+      continue
+    }
+    const comparison = result === undefined ? 0 : compareValues(item, result)
+    if (
+      result === undefined ||
+      (direction === 'desc' ? comparison > 0 : comparison < 0)
+    ) {
+      result = item
+    }
+  }
+  return result
+}
 
-  return items.slice().sort((a, b) => {
-    for (const [field, direction] of orderEntries) {
-      const aValue = getValueByPath(a, field)
-      const bValue = getValueByPath(b, field)
+/**
+ * Accessor of the `$textScore` sort key: the relevance of an object to the
+ * `$text` search of the where clause, computed once per object
+ */
+function createTextScoreAccessor(
+  where: unknown
+): (obj: Record<string, unknown>) => number {
+  const text = findTextSearch(where) as TextSearch<object> | undefined
+  const scores = new Map<object, number>()
+  return (obj) => {
+    if (!text) {
+      return 0
+    }
+    let score = scores.get(obj)
+    if (score === undefined) {
+      score = textScore(obj, text)
+      scores.set(obj, score)
+    }
+    return score
+  }
+}
 
-      // Null values always come last
-      const aNullOrUndefined = isNullOrUndefined(aValue)
-      const bNullOrUndefined = isNullOrUndefined(bValue)
+/**
+ * Accessor of the `$fuzzyScore` sort key: the sum of the fuzzyScore of an
+ * object for each `$fuzzy` condition of the where clause, compared under the
+ * modifiers of the condition and computed once per object
+ */
+function createFuzzyScoreAccessor(
+  where: unknown,
+  context: QueryContext
+): (obj: Record<string, unknown>) => number {
+  const scorers = findFuzzyConditions(where).map(({ path, condition }) => {
+    const accessor = getPathAccessor(path)
+    const search = condition.$fuzzy as string | FuzzyOptions
+    const modifiers = condition as FuzzyModifiers
+    return (obj: Record<string, unknown>) =>
+      fuzzyScore(accessor(obj), search, modifiers, context)
+  })
+  const scores = new Map<object, number>()
+  return (obj) => {
+    let score = scores.get(obj)
+    if (score === undefined) {
+      score = scorers.reduce((sum, scorer) => sum + scorer(obj), 0)
+      scores.set(obj, score)
+    }
+    return score
+  }
+}
 
-      if (aNullOrUndefined && bNullOrUndefined) continue
-      if (aNullOrUndefined) return 1
-      if (bNullOrUndefined) return -1
+/**
+ * Sort key of one orderBy entry
+ */
+export type SortKey = {
+  field: string
+  direction: SortDirection
+  /** Sort value of an object */
+  read: (obj: Record<string, unknown>) => unknown
+  /** Convert a raw value of the field (e.g. a cursor value) like `read` does */
+  normalize: (value: unknown) => unknown
+}
 
-      const comparison = compareValues(aValue, bValue)
+const identity = (value: unknown) => value
+
+/**
+ * Convert the values of a path for comparison: values of date paths in the
+ * schema become dates, other values are kept
+ */
+export function getSortNormalizer(
+  path: string,
+  context: QueryContext
+): (value: unknown) => unknown {
+  const hint = getDateHint(path, context)
+  if (!hint) {
+    return identity
+  }
+  const timeZone = context.timeZone ?? 'UTC'
+  return (value) => normalizeDateValue(value, hint, timeZone)
+}
 
+/**
+ * Sort key of a path, converting the values of date paths in the schema
+ * to dates
+ */
+function createPathSortKey(
+  field: string,
+  direction: SortDirection,
+  context: QueryContext
+): SortKey {
+  const accessor = getPathAccessor(field)
+  const normalize = getSortNormalizer(field, context)
+  return {
+    field,
+    direction,
+    read: normalize === identity ? accessor : (obj) => normalize(accessor(obj)),
+    normalize,
+  }
+}
+
+/**
+ * Resolve the sort keys of an orderBy clause with pre-resolved path accessors
+ */
+export function createSortKeys<T extends object>(
+  orderBy: OrderBy<T>,
+  where?: unknown,
+  context: QueryContext = defaultContext
+): SortKey[] {
+  return Object.entries(orderBy).map(([field, direction]) => {
+    if (field === '$textScore' || field === '$fuzzyScore') {
+      return {
+        field,
+        direction: direction as SortDirection,
+        read:
+          field === '$textScore'
+            ? createTextScoreAccessor(where)
+            : createFuzzyScoreAccessor(where, context),
+        normalize: identity,
+      }
+    }
+    return createPathSortKey(field, direction as SortDirection, context)
+  })
+}
+
+/**
+ * Compare two sort values in a direction.
+ * Null values always come last.
+ */
+export function compareSortValues(
+  a: unknown,
+  b: unknown,
+  direction: SortDirection
+): number {
+  const aValue = getSortValue(a, direction)
+  const bValue = getSortValue(b, direction)
+
+  const aNullOrUndefined = isNullOrUndefined(aValue)
+  const bNullOrUndefined = isNullOrUndefined(bValue)
+
+  if (aNullOrUndefined && bNullOrUndefined) {
+    return 0
+  }
+  if (aNullOrUndefined) {
+    return 1
+  }
+  if (bNullOrUndefined) {
+    return -1
+  }
+
+  const comparison = compareValues(aValue, bValue)
+  return direction === 'desc' ? -comparison : comparison
+}
+
+/**
+ * Create a comparator for an orderBy clause with pre-resolved path accessors.
+ * Paths crossing arrays sort by their smallest (asc) or largest (desc) value,
+ * `$textScore` sorts by relevance to the `$text` search of the where clause,
+ * `$fuzzyScore` by closeness to its `$fuzzy` conditions.
+ * Returns undefined when there is nothing to sort by.
+ */
+export function createComparator<T extends object>(
+  orderBy?: OrderBy<T>,
+  where?: unknown,
+  context: QueryContext = defaultContext
+): ((a: T, b: T) => number) | undefined {
+  if (!orderBy) {
+    return undefined
+  }
+
+  const keys = createSortKeys(orderBy, where, context)
+  if (keys.length === 0) {
+    return undefined
+  }
+
+  return (a, b) => {
+    for (const { read, direction } of keys) {
+      const comparison = compareSortValues(
+        read(a as Record<string, unknown>),
+        read(b as Record<string, unknown>),
+        direction
+      )
       if (comparison !== 0) {
-        return direction === 'desc' ? -comparison : comparison
+        return comparison
       }
     }
     return 0
-  })
+  }
+}
+
+export function applySorting<T extends object>(
+  items: T[],
+  orderBy?: OrderBy<T>,
+  where?: unknown,
+  context: QueryContext = defaultContext
+): T[] {
+  const comparator = createComparator(orderBy, where, context)
+  if (!comparator) {
+    return items
+  }
+
+  return items.slice().sort(comparator)
 }
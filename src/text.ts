@@ -0,0 +1,209 @@
+import { foldString } from './operators/string'
+import { getPathAccessor } from './utils'
+import { isArray, isNumber, isObject, isString } from './guards'
+import type { TextSearch } from './types'
+
+/**
+ * Search string split into plain terms, quoted phrases and `-excluded` terms
+ * or phrases, all folded like the searched text
+ */
+type ParsedSearch = {
+  terms: string[]
+  phrases: string[][]
+  excluded: string[][]
+}
+
+type WeightedField = {
+  accessor: (obj: Record<string, unknown>) => unknown
+  weight: number
+}
+
+// Letters and digits of any script; built at runtime as `u` regexes need ES2015
+const wordPattern = new RegExp('[\\p{L}\\p{N}]+', 'gu')
+
+/**
+ * Split text into words, ignoring case and accents
+ */
+export function tokenize(text: string): string[] {
+  return foldString(text, {}).match(wordPattern) ?? []
+}
+
+const parsedSearches = new Map<string, ParsedSearch>()
+
+/**
+ * Parse a search string: `"quoted phrases"`, `-excluded` words or
+ * `-"excluded phrases"` and plain terms
+ */
+function parseSearch(search: string): ParsedSearch {
+  let parsed = parsedSearches.get(search)
+  if (parsed) {
+    return parsed
+  }
+
+  parsed = { terms: [], phrases: [], excluded: [] }
+  const parts = search.match(/-?"[^"]*"?|\S+/g) ?? []
+  for (const part of parts) {
+    const negated = part.charAt(0) === '-'
+    const text = negated ? part.slice(1) : part
+    const words = tokenize(text)
+    if (negated && text.charAt(0) === '"') {
+      if (words.length > 0) {
+        parsed.excluded.push(words)
+      }
+    } else if (negated) {
+      parsed.excluded.push(...words.map((word) => [word]))
+    } else if (text.charAt(0) === '"') {
+      if (words.length > 0) {
+        parsed.phrases.push(words)
+      }
+    } else {
+      parsed.terms.push(...words)
+    }
+  }
+  parsedSearches.set(search, parsed)
+  return parsed
+}
+
+/**
+ * Searched paths with their weights, from an array of paths (weight 1) or
+ * an object of weights
+ */
+function getWeightedFields(fields: unknown): WeightedField[] {
+  if (isArray(fields)) {
+    return fields
+      .filter(isString)
+      .map((path) => ({ accessor: getPathAccessor(path), weight: 1 }))
+  }
+  if (!isObject(fields)) {
+    return []
+  }
+  return Object.entries(fields)
+    .filter(([, weight]) => isNumber(weight) && weight > 0)
+    .map(([path, weight]) => ({
+      accessor: getPathAccessor(path),
+      weight: weight as number,
+    }))
+}
+
+/**
+ * Words of the strings at a path: a string, or strings of an array
+ */
+function getFieldWords(value: unknown): string[][] {
+  if (isString(value)) {
+    return [tokenize(value)]
+  }
+  return isArray(value) ? value.filter(isString).map(tokenize) : []
+}
+
+/**
+ * Count the occurrences of a phrase (one or more words) in a list of words
+ */
+function countPhrase(words: string[], phrase: string[]): number {
+  let count = 0
+  for (let i = 0; i + phrase.length <= words.length; i++) {
+    if (phrase.every((word, j) => words[i + j] === word)) {
+      count++
+    }
+  }
+  return count
+}
+
+/**
+ * Relevance of an object to a `$text` search, or undefined if it does not
+ * match. An object matches when it contains no excluded term or phrase,
+ * every phrase, and at least one term or phrase.
+ */
+function scoreText(
+  obj: Record<string, unknown>,
+  text: unknown
+): number | undefined {
+  if (!isObject(text) || !isString(text.search)) {
+    return undefined
+  }
+  const { terms, phrases, excluded } = parseSearch(text.search)
+
+  let score = 0
+  let matchedTerms = false
+  const matchedPhrases = new Set<string[]>()
+  for (const { accessor, weight } of getWeightedFields(text.fields)) {
+    for (const words of getFieldWords(accessor(obj))) {
+      if (excluded.some((phrase) => countPhrase(words, phrase) > 0)) {
+        return undefined
+      }
+      for (const term of terms) {
+        const count = countPhrase(words, [term])
+        if (count > 0) {
+          matchedTerms = true
+          score += weight * count
+        }
+      }
+      for (const phrase of phrases) {
+        const count = countPhrase(words, phrase)
+        if (count > 0) {
+          matchedPhrases.add(phrase)
+          score += weight * count * phrase.length
+        }
+      }
+    }
+  }
+
+  if (matchedPhrases.size < phrases.length) {
+    return undefined
+  }
+  // Without phrases, at least one of the terms must match
+  if (phrases.length === 0 && terms.length > 0 && !matchedTerms) {
+    return undefined
+  }
+  return score
+}
+
+/**
+ * Check whether an object matches a `$text` search
+ */
+export function matchesText(
+  obj: Record<string, unknown>,
+  text: unknown
+): boolean {
+  return scoreText(obj, text) !== undefined
+}
+
+/**
+ * Score the relevance of an object to a `$text` search
+ *
+ * Each occurrence of a term in a searched field adds the weight of the field,
+ * each occurrence of a phrase adds the weight times the number of its words.
+ * Words are compared ignoring case and accents.
+ *
+ * @param obj - Object to score
+ * @param text - Operand of `$text`: search string and weighted fields
+ * @returns Relevance score, 0 when the object does not match
+ *
+ * @example
+ * const text = { search: "laptop -refurbished", fields: { name: 3, tags: 1 } }
+ * textScore(product, text)
+ */
+export function textScore<T extends object>(
+  obj: T,
+  text: TextSearch<T>
+): number {
+  return scoreText(obj as Record<string, unknown>, text) ?? 0
+}
+
+/**
+ * Find the `$text` search of a where clause, at its top level or in `$and`
+ */
+export function findTextSearch(where: unknown): unknown {
+  if (isArray(where)) {
+    for (const filter of where) {
+      const text = findTextSearch(filter)
+      if (text !== undefined) {
+        return text
+      }
+    }
+    return undefined
+  }
+  if (!isObject(where)) {
+    return undefined
+  }
+  return '$text' in where ? where.$text : findTextSearch(where.$and)
+}
@@ -9,10 +9,17 @@ type DeepKeys<T, MaxDepth extends number = 5> = MaxDepth extends 0
         [K in keyof T]-?: K extends string | number
           ? T[K] extends object
             ? T[K] extends unknown[]
-              ? `${K}` | `${K}.${DeepKeys<T[K][number], Subtract<MaxDepth, 1>>}`
-              : T[K] extends Date
-                ? `${K}`
-                : `${K}` | `${K}.${DeepKeys<T[K], Subtract<MaxDepth, 1>>}`
+              ? | `${K}`
+                | `${K}.$[]`
+                | `${K}.${'$[].' | ''}${DeepKeys<T[K][number], Subtract<MaxDepth, 1>>}`
+              : T[K] extends Map<infer MK, infer MV>
+                ? | `${K}`
+                  | `${K}.${MK & (string | number)}`
+                  | `${K}.${MK & (string | number)}.${DeepKeys<MV, Subtract<MaxDepth, 1>>}`
+                : T[K] extends
+                      Date | Set<unknown> | ArrayBuffer | ArrayBufferView
+                  ? `${K}`
+                  : `${K}` | `${K}.${DeepKeys<T[K], Subtract<MaxDepth, 1>>}`
             : `${K}`
           : never
       }[keyof T]
@@ -24,12 +31,127 @@ type Subtract<N extends number, S extends number> = N extends S
     ? never
     : [never, 0, 1, 2, 3, 4][N]
 
+/**
+ * Top-level key or dot path of T
+ */
+export type QueryPath<T> = Extract<keyof T, string> | DeepKeys<T>
+
+/**
+ * Value type at a top-level key or dot path of T
+ */
+export type PathValue<T, P extends string> = P extends keyof T
+  ? T[P]
+  : P extends `${infer H}.${infer R}`
+    ? H extends keyof T
+      ? PathValue<NonNullable<T[H]>, R>
+      : unknown
+    : unknown
+
+type PathHead<P extends string> = P extends `${infer H}.${string}` ? H : P
+
+type PathTail<P extends string, H extends string> = P extends `${H}.${infer R}`
+  ? R
+  : never
+
+/**
+ * Keep only the given paths of T, preserving the nested shape
+ */
+export type DeepPick<T, P extends string> = T extends Date
+  ? T
+  : T extends readonly (infer U)[]
+    ? DeepPick<U, P>[]
+    : T extends object
+      ? {
+          [
+            K in keyof T as `${K & (string | number)}` extends PathHead<P>
+              ? K
+              : never
+          ]: `${K & (string | number)}` extends P
+            ? T[K]
+            : DeepPick<T[K], PathTail<P, `${K & (string | number)}`>>
+        }
+      : T
+
+/**
+ * Remove the given paths from T, preserving the nested shape
+ */
+export type DeepOmit<T, P extends string> = T extends Date
+  ? T
+  : T extends readonly (infer U)[]
+    ? DeepOmit<U, P>[]
+    : T extends object
+      ? {
+          [
+            K in keyof T as `${K & (string | number)}` extends P ? never : K
+          ]: `${K & (string | number)}` extends PathHead<P>
+            ? DeepOmit<T[K], PathTail<P, `${K & (string | number)}`>>
+            : T[K]
+        }
+      : T
+
+/**
+ * Result shape of a query with select/omit clauses
+ */
+export type Projection<T, S extends string, O extends string> = [S] extends [
+  never,
+]
+  ? [O] extends [never]
+    ? T
+    : DeepOmit<T, O>
+  : [O] extends [never]
+    ? DeepPick<T, S>
+    : DeepOmit<DeepPick<T, S>, O>
+
 // ============================================================================
 // OPERATOR TYPES
 // ============================================================================
 
 /**
- * String-specific query operators with case-insensitive matching
+ * Type names of the `$type` operator, `"date"` for Date instances and
+ * `"object"` for other objects
+ */
+export type ValueType =
+  | 'string'
+  | 'number'
+  | 'date'
+  | 'array'
+  | 'object'
+  | 'null'
+  | 'boolean'
+  | 'bigint'
+
+/**
+ * Locale-aware comparison of strings, see Intl.Collator
+ */
+export type Collation = {
+  /** BCP 47 locale, e.g. `"de"` or `"tr"` (default: the runtime locale) */
+  locale?: string
+  /**
+   * Differences that make strings unequal (default: `"base"`):
+   * `"base"` ignores accents and case, `"accent"` ignores case,
+   * `"case"` ignores accents, `"variant"` ignores neither
+   */
+  sensitivity?: 'base' | 'accent' | 'case' | 'variant'
+}
+
+/**
+ * Options of the `$fuzzy` operator
+ */
+export type FuzzyOptions = {
+  /** Search term */
+  value: string
+  /**
+   * Maximum edit distance to the closest part of the string (default: 0 for
+   * terms of up to 3 characters, 1 for up to 7 characters, else 2)
+   */
+  maxDistance?: number
+  /** Minimum similarity from 0 to 1, as computed by fuzzyScore */
+  minSimilarity?: number
+}
+
+/**
+ * String-specific query operators, matching case-insensitively unless
+ * `$caseSensitive` or the engine says otherwise
  */
 export type StringOperators = {
   /** Exact match */
@@ -40,18 +162,40 @@ export type StringOperators = {
   $in?: string[]
   /** Value not in array */
   $nin?: string[]
-  /** Contains substring (case-insensitive) */
+  /** Contains substring */
   $contains?: string
-  /** Starts with (case-insensitive) */
+  /** Starts with */
   $startsWith?: string
-  /** Ends with (case-insensitive) */
+  /** Ends with */
   $endsWith?: string
-  /** Regex pattern match (case-insensitive) */
-  $regex?: string
+  /**
+   * Contains the search term, allowing for typos, sort by closeness with
+   * `orderBy: { $fuzzyScore: "desc" }`
+   */
+  $fuzzy?: string | FuzzyOptions
+  /** Regex pattern match, a RegExp is used with its own flags */
+  $regex?: string | RegExp
+  /** Flags added to a `$regex` pattern, e.g. `"m"` */
+  $options?: string
+  /** Match case in the string operators of this condition */
+  $caseSensitive?: boolean
+  /**
+   * Compare `$eq`, `$ne`, `$contains`, `$startsWith` and `$endsWith` with a
+   * collation, whose sensitivity replaces `$caseSensitive`
+   */
+  $collation?: Collation
   /** Field exists and is not null */
   $exists?: boolean
+  /** Value is of the type, or of any of the types */
+  $type?: ValueType | ValueType[]
   /** String length equals */
   $size?: number
+  /** Condition on the same field must not match */
+  $not?: string | RegExp | StringOperators
+  /** At least one condition on the same field matches */
+  $or?: (string | RegExp | StringOperators)[]
+  /** Every condition on the same field matches */
+  $and?: (string | RegExp | StringOperators)[]
 }
 
 /**
@@ -72,11 +216,117 @@ export type NumberOperators = {
   $lte?: number
   /** Between range (inclusive) */
   $between?: [number, number] | { min: number; max: number }
+  /** Remainder of dividing by the divisor equals: `[divisor, remainder]` */
+  $mod?: [number, number]
+  /** Every bit of the mask, or at the positions, is set */
+  $bitsAllSet?: number | number[]
+  /** Any bit of the mask, or at the positions, is set */
+  $bitsAnySet?: number | number[]
+  /** Every bit of the mask, or at the positions, is clear */
+  $bitsAllClear?: number | number[]
+  $exists?: boolean
+  /** Value is of the type, or of any of the types */
+  $type?: ValueType | ValueType[]
+  $not?: number | NumberOperators
+  $or?: (number | NumberOperators)[]
+  $and?: (number | NumberOperators)[]
+}
+
+/**
+ * BigInt-specific query operators. Bigints compare with numbers by value.
+ */
+export type BigIntOperators = {
+  $eq?: bigint | number
+  $ne?: bigint | number
+  $in?: (bigint | number)[]
+  $nin?: (bigint | number)[]
+  /** Greater than */
+  $gt?: bigint | number
+  /** Greater than or equal */
+  $gte?: bigint | number
+  /** Less than */
+  $lt?: bigint | number
+  /** Less than or equal */
+  $lte?: bigint | number
+  /** Between range (inclusive) */
+  $between?:
+    | [bigint | number, bigint | number]
+    | { min: bigint | number; max: bigint | number }
+  /** Remainder of dividing by the divisor equals: `[divisor, remainder]` */
+  $mod?: [bigint | number, bigint | number]
+  /** Every bit of the mask, or at the positions, is set */
+  $bitsAllSet?: bigint | number | number[]
+  /** Any bit of the mask, or at the positions, is set */
+  $bitsAnySet?: bigint | number | number[]
+  /** Every bit of the mask, or at the positions, is clear */
+  $bitsAllClear?: bigint | number | number[]
   $exists?: boolean
+  /** Value is of the type, or of any of the types */
+  $type?: ValueType | ValueType[]
+  $not?: bigint | number | BigIntOperators
+  $or?: (bigint | number | BigIntOperators)[]
+  $and?: (bigint | number | BigIntOperators)[]
 }
 
 /**
- * Date-specific query operators
+ * Set-specific query operators
+ */
+export type SetOperators<T> = {
+  $eq?: Set<T>
+  $ne?: Set<T>
+  $in?: Set<T>[]
+  $nin?: Set<T>[]
+  /** Set has this value, or a string containing this substring */
+  $contains?: T
+  /** Match case when `$contains` compares strings */
+  $caseSensitive?: boolean
+  /** Compare strings in `$contains` with a collation */
+  $collation?: Collation
+  /** Set has all of these values */
+  $all?: T[]
+  /** Set has exactly this many values */
+  $size?: number
+  $exists?: boolean
+  /** Value is of the type, or of any of the types */
+  $type?: ValueType | ValueType[]
+}
+
+/**
+ * How the values of a date path are stored: `"iso"` for Date instances,
+ * ISO 8601 strings and Temporal-like instants or plain dates, `"epoch"` for
+ * those and numbers of milliseconds since 1970
+ */
+export type DateHint = 'iso' | 'epoch'
+
+/**
+ * Hints about the values stored at paths, as written in filters and orderBy
+ */
+export type QuerySchema = {
+  /**
+   * Paths whose values are dates, compared as dates by the operators and
+   * sorting, e.g. `{ createdAt: "iso", lastSeen: "epoch" }`
+   */
+  dates?: Record<string, DateHint>
+}
+
+/**
+ * Length of time of `$withinLast` and `$withinNext`. Calendar units follow
+ * the time zone of the condition, e.g. a month before March 31 is February 29.
+ */
+export type DateDuration = {
+  years?: number
+  quarters?: number
+  months?: number
+  weeks?: number
+  days?: number
+  hours?: number
+  minutes?: number
+  seconds?: number
+}
+
+/**
+ * Date-specific query operators. Calendar operators (`$sameDay`, `$year`...)
+ * use the `$timeZone` of the condition, the engine time zone, or UTC.
  */
 export type DateOperators = {
   $eq?: Date
@@ -86,13 +336,42 @@ export type DateOperators = {
   $lt?: Date
   $lte?: Date
   $between?: [Date, Date] | { min: Date; max: Date }
+  /** Between the duration before now and now */
+  $withinLast?: DateDuration
+  /** Between now and the duration after now */
+  $withinNext?: DateDuration
+  /** Same calendar day as the date, or as now with `"now"` */
+  $sameDay?: Date | 'now'
+  /** Same calendar month as the date, or as now with `"now"` */
+  $sameMonth?: Date | 'now'
+  /** Same calendar year as the date, or as now with `"now"` */
+  $sameYear?: Date | 'now'
+  /** Year matches */
+  $year?: number | NumberOperators
+  /** Month matches, 1 (January) to 12 */
+  $month?: number | NumberOperators
+  /** Day of the month matches, 1 to 31 */
+  $dayOfMonth?: number | NumberOperators
+  /** Day of the week matches, 0 (Sunday) to 6 (Saturday) */
+  $dayOfWeek?: number | NumberOperators
+  /** Hour matches, 0 to 23 */
+  $hour?: number | NumberOperators
+  /** IANA time zone of the calendar operators, e.g. `"Europe/Berlin"` */
+  $timeZone?: string
   $exists?: boolean
+  /** Value is of the type, or of any of the types */
+  $type?: ValueType | ValueType[]
+  $not?: Date | DateOperators
+  $or?: (Date | DateOperators)[]
+  $and?: (Date | DateOperators)[]
 }
 
 export type BooleanOperators = {
   $eq?: boolean
   $ne?: boolean
   $exists?: boolean
+  /** Value is of the type, or of any of the types */
+  $type?: ValueType | ValueType[]
 }
 
 /**
@@ -103,37 +382,171 @@ export type ArrayOperators<T> = {
   $in?: T
   /** Value is not in the array */
   $nin?: T
-  /** Array contains this value */
+  /** Array contains this value, or a string containing this substring */
   $contains?: T
+  /** Some string element contains the search term, allowing for typos */
+  $fuzzy?: T extends string ? string | FuzzyOptions : never
+  /** Match case when `$contains` compares strings */
+  $caseSensitive?: boolean
+  /** Compare strings in `$contains` with a collation */
+  $collation?: Collation
   /** Array contains all of these values */
   $all?: T[]
   /** Array has exact length */
   $size?: number
   $exists?: boolean
-  /** At least one array element matches the condition */
-  $elemMatch?: T extends object ? ObjectFilter<T> : FieldOperators<T>
+  /** Value is of the type, or of any of the types */
+  $type?: ValueType | ValueType[]
+  /**
+   * At least one array element matches the condition: a filter for object
+   * elements (logical operators included), operators for other elements
+   */
+  $elemMatch?: T extends Date
+    ? FieldOperators<T>
+    : T extends object
+      ? ObjectFilter<T>
+      : FieldOperators<T>
+}
+
+/**
+ * Symbol key keeping the type parameter of the plugin interfaces below in use,
+ * it never exists at runtime
+ */
+declare const typeParameter: unique symbol
+
+/**
+ * Field operators added by engine plugins, merged into FieldOperators.
+ * Augment it to type custom operators, `T` is the type of the field value:
+ *
+ * @example
+ * declare module "magic-query" {
+ *   interface CustomOperators<T> {
+ *     $semver?: T extends string ? string : never
+ *   }
+ * }
+ */
+export interface CustomOperators<T> {
+  /** Type of the field value, not an operator */
+  readonly [typeParameter]?: T
+}
+
+type WithCustomOperators<T, O> = O & CustomOperators<T>
+
+/**
+ * Operators of values without type-specific operators
+ */
+type ValueOperators<T> = {
+  $eq?: T
+  $ne?: T
+  $exists?: boolean
+  $type?: ValueType | ValueType[]
+}
+
+/**
+ * Operators of object values, plus conditions on their properties matched
+ * like a nested filter, e.g. `{ details: { rating: { $gt: 4 } } }`
+ */
+type ObjectOperators<T> = ValueOperators<T> & {
+  [K in keyof T]?: FieldOperators<T[K]>
 }
 
 export type FieldOperators<T> = T extends string
-  ? string | StringOperators
+  ? string | RegExp | WithCustomOperators<T, StringOperators>
   : T extends number
-    ? number | NumberOperators
-    : T extends boolean
-      ? boolean | BooleanOperators
-      : T extends Date
-        ? Date | DateOperators
-        : T extends (infer U)[]
-          ? T | ArrayOperators<U>
-          : T extends object
-            ? T | { $eq?: T; $ne?: T; $exists?: boolean }
-            : T | { $eq?: T; $ne?: T; $exists?: boolean }
+    ? number | WithCustomOperators<T, NumberOperators>
+    : T extends bigint
+      ? bigint | number | WithCustomOperators<T, BigIntOperators>
+      : T extends boolean
+        ? boolean | WithCustomOperators<T, BooleanOperators>
+        : T extends Date
+          ? Date | WithCustomOperators<T, DateOperators>
+          : T extends (infer U)[]
+            ? T | WithCustomOperators<T, ArrayOperators<U>>
+            : T extends Set<infer U>
+              ? T | WithCustomOperators<T, SetOperators<U>>
+              : T extends object
+                ? T | WithCustomOperators<T, ObjectOperators<T>>
+                : T | WithCustomOperators<T, ValueOperators<T>>
+
+/**
+ * Top-level logical operators added by engine plugins, merged into LogicalOperators.
+ * `T` is the type of the filtered objects.
+ *
+ * @example
+ * declare module "magic-query" {
+ *   interface CustomLogicalOperators<T> {
+ *     $hasPermission?: string
+ *   }
+ * }
+ */
+export interface CustomLogicalOperators<T> {
+  /** Type of the filtered objects, not an operator */
+  readonly [typeParameter]?: T
+}
+
+/**
+ * Reference to a field of the same object inside `$expr`, e.g. `"$createdAt"`
+ */
+export type FieldReference<T> = `$${QueryPath<T>}`
+
+type ExpressionPair<T> = [Expression<T>, Expression<T>]
+
+/**
+ * Expression evaluated against each object by `$expr`: a field reference,
+ * a literal value, or an arithmetic or comparison operator
+ */
+export type Expression<T> =
+  | FieldReference<T>
+  | (string & Record<never, never>)
+  | number
+  | boolean
+  | Date
+  | null
+  | unknown[]
+  /** Literal value, e.g. a string starting with `$` */
+  | { $literal: unknown }
+  /** Sum of numbers, or a date plus milliseconds */
+  | { $add: Expression<T>[] }
+  /** Difference of numbers or dates (in milliseconds), or a date minus milliseconds */
+  | { $subtract: ExpressionPair<T> }
+  | { $multiply: Expression<T>[] }
+  | { $divide: ExpressionPair<T> }
+  | { $eq: ExpressionPair<T> }
+  | { $ne: ExpressionPair<T> }
+  | { $gt: ExpressionPair<T> }
+  | { $gte: ExpressionPair<T> }
+  | { $lt: ExpressionPair<T> }
+  | { $lte: ExpressionPair<T> }
+
+/**
+ * Operand of `$text`: a search string and the paths to search
+ */
+export type TextSearch<T> = {
+  /** Words, `"quoted phrases"` and `-excluded` words */
+  search: string
+  /** Paths to search (weight 1), or paths with their weights */
+  fields: QueryPath<T>[] | Partial<Record<QueryPath<T>, number>>
+}
 
 export type LogicalOperators<T> = {
   $and?: ObjectFilter<T>[]
   $or?: ObjectFilter<T>[]
   $not?: ObjectFilter<T>
   $nor?: ObjectFilter<T>[]
-}
+  /**
+   * Compare fields of the same object, matching when the expression is truthy
+   * @example
+   * $expr: { $lt: ["$pricing.sale.price", "$pricing.sale.originalPrice"] }
+   */
+  $expr?: Expression<T>
+  /**
+   * Full-text search over several fields, sort by relevance with
+   * `orderBy: { $textScore: "desc" }`
+   * @example
+   * $text: { search: "laptop -refurbished", fields: { name: 3, description: 1 } }
+   */
+  $text?: TextSearch<T>
+} & CustomLogicalOperators<T>
 
 // Fixed: More restrictive type for better type safety
 export type ObjectFilter<T> = LogicalOperators<T> & {
@@ -152,7 +565,11 @@ export type SortDirection = 'asc' | 'desc'
 /**
  * Enhanced query type with better autocomplete
  */
-export type ObjectQuery<T> = {
+export type ObjectQuery<
+  T,
+  S extends QueryPath<T> = QueryPath<T>,
+  O extends QueryPath<T> = QueryPath<T>,
+> = {
   /**
    * Filter conditions using MongoDB-style operators
    * Can be a single filter object or an array of filters (AND logic)
@@ -172,20 +589,549 @@ export type ObjectQuery<T> = {
    */
   orderBy?: Partial<{
     [K in keyof T | DeepKeys<T>]: SortDirection
-  }>
+  }> & {
+    /** Relevance to the `$text` search of the where clause */
+    $textScore?: SortDirection
+    /** Closeness to the `$fuzzy` conditions of the where clause */
+    $fuzzyScore?: SortDirection
+  }
+
+  /**
+   * Number of results to skip (applied after sorting and cursor)
+   * @example
+   * skip: 20
+   */
+  skip?: number
+
+  /**
+   * Maximum number of results to return
+   * @example
+   * take: 10
+   */
+  take?: number
+
+  /**
+   * Start after the item with these sort key values: the orderBy fields plus
+   * a unique tiebreaker such as the id. Cursor fields missing from orderBy
+   * sort ascending after it. Without a unique field, the `nextCursor` of
+   * findPage counts the items with equal values in `$ties`.
+   * @example
+   * cursor: { createdAt: "2024-05-01", id: 42 }
+   */
+  cursor?: QueryCursor<T>
+
+  /**
+   * Only return these fields (top-level keys or dot paths)
+   * @example
+   * select: ["id", "profile.name"]
+   */
+  select?: readonly S[]
+
+  /**
+   * Return all fields except these (top-level keys or dot paths)
+   * @example
+   * omit: ["password", "profile.secret"]
+   */
+  omit?: readonly O[]
+
+  /**
+   * Validate the query before running it and throw a QueryError
+   * (UnknownOperatorError, InvalidOperandError, InvalidPathError) instead of
+   * silently ignoring unknown operators or malformed conditions
+   */
+  strict?: boolean
+}
+
+/**
+ * Query compiled once into a specialised predicate and comparator
+ */
+export type CompiledQuery<
+  T,
+  S extends QueryPath<T> = never,
+  O extends QueryPath<T> = never,
+> = {
+  /** The source query (used for paging and projection) */
+  readonly query: ObjectQuery<T, S, O>
+  /** Test whether an object matches the where clause */
+  readonly matches: (obj: T) => boolean
+  /**
+   * Compare two objects by the orderBy clause, ties broken by the cursor fields
+   * (undefined without orderBy or cursor)
+   */
+  readonly compare?: (a: T, b: T) => number
+}
+
+/**
+ * Sort key values of an item to seek after.
+ * Fields missing from orderBy break ties between equal sort values.
+ */
+export type QueryCursor<T> = Partial<{
+  [K in keyof T | DeepKeys<T>]: unknown
+}> & {
+  /** Relevance of the item when ordering by `$textScore` */
+  $textScore?: number
+  /** Closeness of the item when ordering by `$fuzzyScore` */
+  $fuzzyScore?: number
+  /**
+   * Number of items with equal sort values to seek past, set by findPage when
+   * such items fall on both sides of a page boundary
+   */
+  $ties?: number
 }
 
+/**
+ * Result of findPage operation
+ */
+export type Page<T> = {
+  /** Items on this page */
+  items: T[]
+  /** Whether more items follow this page */
+  hasNextPage: boolean
+  /** Whether items precede this page */
+  hasPreviousPage: boolean
+  /** Cursor to pass as `cursor` to fetch the next page */
+  nextCursor?: QueryCursor<T>
+  /** Number of items matching the query before paging */
+  totalCount: number
+}
+
+/**
+ * Index kind: `hash` for equality and `$in`, `sorted` for range operators
+ */
+export type CollectionIndexType = 'hash' | 'sorted'
+
+/**
+ * Options for createCollection
+ */
+export type CollectionOptions<T> = {
+  /**
+   * Paths to index and the kind of index to keep for each
+   * @example
+   * indexes: { category: "hash", price: "sorted", "author.id": "hash" }
+   */
+  indexes?: Partial<Record<QueryPath<T>, CollectionIndexType>>
+}
+
+/**
+ * Mutable collection of objects with indexes kept up to date
+ */
+export type IndexedCollection<T> = {
+  /** Items in insertion order */
+  readonly items: readonly T[]
+  /** Number of items */
+  readonly size: number
+  /** Add items (re-indexes items already in the collection) */
+  readonly insert: (...items: T[]) => void
+  /** Apply changes to an item, or re-index it after it was changed in place */
+  readonly update: (item: T, changes?: Partial<T>) => boolean
+  /** Remove an item, returning whether it was in the collection */
+  readonly remove: (item: T) => boolean
+}
+
+/**
+ * Objects to query: a plain array or an indexed collection
+ */
+export type QuerySource<T> = T[] | IndexedCollection<T>
+
+/**
+ * Node of the normalized filter tree reported by explain
+ */
+export type FilterPlanNode = {
+  /**
+   * Logical combinator, a single field condition, `$expr` or a logical
+   * operator added by a plugin, or a filter that is not an object
+   */
+  type: 'and' | 'or' | 'not' | 'nor' | 'field' | 'operator' | 'invalid'
+  /** Field path (field nodes) */
+  path?: string
+  /** `$expr` or a plugin logical operator (operator nodes) */
+  operator?: string
+  /** Field condition or operand as written in the query (field and operator nodes) */
+  condition?: unknown
+  /** Child nodes in evaluation order (logical nodes) */
+  children?: FilterPlanNode[]
+  /** Number of objects this node was evaluated against */
+  evaluations: number
+  /** Number of evaluations that matched */
+  matches: number
+  /** Share of evaluations that matched (0 to 1) */
+  selectivity: number
+  /** Number of evaluations decided before all children were evaluated */
+  shortCircuits: number
+}
+
+/**
+ * Execution plan and statistics reported by explain
+ */
+export type QueryPlan = {
+  /** Normalized filter tree with per-node statistics */
+  filter: FilterPlanNode
+  /** Optimisation that evaluates the filter instead of matchesFilter */
+  fastPath?: 'primitive-equality' | 'compiled'
+  /** Indexes of the collection and whether they narrowed the candidates */
+  indexes: { path: string; type: CollectionIndexType; used: boolean }[]
+  /** Number of objects in the source */
+  total: number
+  /** Number of objects the filter was evaluated against */
+  scanned: number
+  /** Number of objects matching the filter */
+  matched: number
+  /** Number of objects returned after skip/take/cursor */
+  returned: number
+}
+
+/**
+ * Node of the tree reported by diagnose
+ */
+export type DiagnosisNode = {
+  /**
+   * Logical combinator, field condition, single operator (field operator,
+   * `$expr` or plugin logical operator), or a filter or object that is not an object
+   */
+  type: 'and' | 'or' | 'not' | 'nor' | 'field' | 'operator' | 'invalid'
+  /** Whether this node matched the object */
+  matched: boolean
+  /** Field path (field nodes and field operator nodes) */
+  path?: string
+  /** Operator (operator nodes, `$eq` for literal values) */
+  operator?: string
+  /** Value resolved at the path (field and operator nodes) */
+  value?: unknown
+  /** Expected condition or operand */
+  expected?: unknown
+  /** Child nodes in evaluation order */
+  children?: DiagnosisNode[]
+}
+
+/**
+ * Result of diagnose
+ */
+export type MatchDiagnosis = {
+  /** Whether the object matches the filter */
+  matched: boolean
+  /** Outcome of every node of the filter */
+  tree: DiagnosisNode
+  /** First leaf that made the filter fail */
+  failure?: DiagnosisNode
+  /** Readable description of the failure */
+  reason?: string
+}
+
+// ============================================================================
+// PLUGIN TYPES
+// ============================================================================
+
+/**
+ * Field operator added by a plugin, e.g. `$semver`
+ */
+export type OperatorDefinition = {
+  /** Test a field value against the operand */
+  evaluate(value: unknown, operand: unknown): boolean
+  /** Describe the expected operand if it is invalid (strict mode and validateQuery) */
+  validate?(operand: unknown): string | undefined
+}
+
+/**
+ * Top-level logical operator added by a plugin, e.g. `$hasPermission`
+ */
+export type LogicalOperatorDefinition = {
+  /**
+   * Test an object against the operand. `matches` evaluates a nested filter
+   * against the object with the same engine.
+   */
+  evaluate(
+    obj: Record<string, unknown>,
+    operand: unknown,
+    matches: (filter: unknown) => boolean
+  ): boolean
+  /** Describe the expected operand if it is invalid (strict mode and validateQuery) */
+  validate?(operand: unknown): string | undefined
+}
+
+/**
+ * A named set of operators to register with createEngine
+ */
+export type QueryPlugin = {
+  /** Plugin name, reported when operator names conflict */
+  name: string
+  /** Field operators by name, e.g. `{ $semver: { evaluate } }` */
+  operators?: Record<string, OperatorDefinition>
+  /** Top-level logical operators by name */
+  logicalOperators?: Record<string, LogicalOperatorDefinition>
+}
+
+/**
+ * Operators registered with an engine, in addition to the built-in ones,
+ * and the engine defaults
+ */
+export type QueryContext = {
+  readonly operators: ReadonlyMap<string, OperatorDefinition>
+  readonly logicalOperators: ReadonlyMap<string, LogicalOperatorDefinition>
+  /** Whether string operators match case unless a condition sets `$caseSensitive` */
+  readonly caseSensitive?: boolean
+  /** Collation of string comparisons unless a condition sets `$collation` */
+  readonly collation?: Collation
+  /** Whether comparisons coerce numeric and ISO date strings */
+  readonly coerceTypes?: boolean
+  /** Time zone of calendar operators unless a condition sets `$timeZone` */
+  readonly timeZone?: string
+  /** Current time of relative date operators */
+  readonly now?: () => Date
+  /** Hints about the values stored at paths */
+  readonly schema?: QuerySchema
+}
+
+/**
+ * Options of createEngine
+ */
+export type EngineOptions = {
+  /** Plugins whose operators are available to the engine */
+  plugins?: readonly QueryPlugin[]
+  /**
+   * Match case in `$contains`, `$startsWith`, `$endsWith` and `$regex`
+   * unless a condition sets `$caseSensitive` (default: false)
+   */
+  caseSensitive?: boolean
+  /**
+   * Compare strings in `$eq`, `$ne`, `$contains`, `$startsWith` and
+   * `$endsWith` with a collation unless a condition sets `$collation`
+   */
+  collation?: Collation
+  /**
+   * Compare numeric strings with numbers and ISO date strings with dates in
+   * `$gt`, `$gte`, `$lt`, `$lte` and `$between` (default: false)
+   */
+  coerceTypes?: boolean
+  /**
+   * IANA time zone of the calendar date operators unless a condition sets
+   * `$timeZone` (default: UTC)
+   */
+  timeZone?: string
+  /**
+   * Current time of `$withinLast`, `$withinNext` and `"now"`, e.g. a fixed
+   * date in tests (default: the system clock)
+   */
+  now?: () => Date
+  /**
+   * Paths whose values are dates stored as ISO strings, Temporal-like
+   * objects or epoch milliseconds
+   */
+  schema?: QuerySchema
+}
+
+// ============================================================================
+// AGGREGATION TYPES
+// ============================================================================
+
+/**
+ * Paths to aggregate, each set to `true`
+ */
+export type AggregateFields<T> = Partial<Record<QueryPath<T>, true>>
+
+/**
+ * Aggregation selection shared by aggregate and groupBy
+ */
+export type AggregateSelection<T> = {
+  /** Count objects (`true`), or non-null values per path (`_all` counts objects) */
+  _count?: true | Partial<Record<'_all' | QueryPath<T>, true>>
+  /** Sum of numeric values per path */
+  _sum?: AggregateFields<T>
+  /** Average of numeric values per path */
+  _avg?: AggregateFields<T>
+  /** Smallest value per path (numbers, strings, dates) */
+  _min?: AggregateFields<T>
+  /** Largest value per path (numbers, strings, dates) */
+  _max?: AggregateFields<T>
+}
+
+/**
+ * Aggregation query with an optional filter
+ */
+export type AggregateQuery<T> = AggregateSelection<T> & {
+  /**
+   * Filter conditions applied before aggregating
+   * @example
+   * where: { status: "paid" }
+   */
+  where?: ObjectFilter<T> | ObjectFilter<T>[]
+
+  /**
+   * Validate the filter before running it (see ObjectQuery.strict)
+   */
+  strict?: boolean
+}
+
+type AggregateKey = keyof AggregateSelection<unknown>
+
+/**
+ * Result of aggregate operation, shaped by the selected aggregations
+ */
+export type AggregateResult<T, Q> = {
+  [K in keyof Q as K extends AggregateKey ? K : never]: K extends '_count'
+    ? Q[K] extends true
+      ? number
+      : { [P in keyof Q[K]]: number }
+    : K extends '_sum' | '_avg'
+      ? { [P in keyof Q[K]]: number | null }
+      : { [P in keyof Q[K]]: P extends string ? PathValue<T, P> | null : never }
+}
+
+// ============================================================================
+// GROUPING TYPES
+// ============================================================================
+
+/**
+ * Conditions on group aggregates, all must match
+ * @example
+ * having: { _count: { $gte: 2 }, _sum: { total: { $gt: 100 } } }
+ */
+export type GroupHaving<T> = {
+  /** Number of items in the group */
+  _count?: number | NumberOperators
+  _sum?: Partial<Record<QueryPath<T>, number | NumberOperators>>
+  _avg?: Partial<Record<QueryPath<T>, number | NumberOperators>>
+  _min?: Partial<Record<QueryPath<T>, unknown>>
+  _max?: Partial<Record<QueryPath<T>, unknown>>
+}
+
+/**
+ * Sort groups by key or aggregate value, in key order of precedence
+ * @example
+ * orderGroupsBy: { _sum: { total: "desc" }, _key: "asc" }
+ */
+export type GroupOrderBy<T> = {
+  /** Group key value */
+  _key?: SortDirection
+  /** Number of items in the group */
+  _count?: SortDirection
+  _sum?: Partial<Record<QueryPath<T>, SortDirection>>
+  _avg?: Partial<Record<QueryPath<T>, SortDirection>>
+  _min?: Partial<Record<QueryPath<T>, SortDirection>>
+  _max?: Partial<Record<QueryPath<T>, SortDirection>>
+}
+
+/**
+ * Query for groupBy with per-group aggregations
+ */
+export type GroupByQuery<T> = ObjectQuery<T> &
+  AggregateSelection<T> & {
+    /** Only keep groups whose aggregates match */
+    having?: GroupHaving<T>
+    /** Sort groups (defaults to the order in which keys first appear) */
+    orderGroupsBy?: GroupOrderBy<T>
+    /**
+     * Group by several fields as a tree (one level per field)
+     * instead of by their combined values
+     * @example
+     * groupBy(stores, ["region", "country", "city"], { nested: true })
+     */
+    nested?: boolean
+  }
+
+/**
+ * Calendar unit for date buckets and date truncation
+ */
+export type DateBucketUnit = 'day' | 'week' | 'month' | 'quarter' | 'year'
+
+/**
+ * Path or function producing the value a bucket is computed from
+ */
+export type GroupKeySource<T> = string | ((item: T) => unknown)
+
+type BucketOptions<T> = {
+  /** Value to bucket */
+  field: GroupKeySource<T>
+  /** Add empty groups for missing buckets so axes are continuous */
+  fillEmpty?: boolean
+}
+
+/**
+ * Truncate dates to the start of a calendar unit
+ * @example
+ * { field: "createdAt", date: "month", timeZone: "Europe/Berlin" }
+ */
+export type DateBucket<T> = BucketOptions<T> & {
+  date: DateBucketUnit
+  /** IANA time zone the calendar is evaluated in (defaults to UTC) */
+  timeZone?: string
+  /** First day of the week, 0 = Sunday, 1 = Monday (default) */
+  weekStartsOn?: 0 | 1
+}
+
+/**
+ * Numeric ranges of a fixed width, keyed by their lower bound
+ * @example
+ * { field: "price", width: 50 }
+ */
+export type RangeBucket<T> = BucketOptions<T> & {
+  width: number
+  /** Shift the range boundaries (default 0) */
+  offset?: number
+}
+
+/**
+ * Explicit ascending boundaries, keyed by the lower boundary.
+ * Values outside the boundaries get the key null.
+ * @example
+ * { field: "age", boundaries: [0, 18, 65, 120] }
+ */
+export type BoundaryBucket<T> = BucketOptions<T> & {
+  boundaries: readonly (number | Date)[]
+}
+
+/**
+ * Single grouping key: a path, a key function or a bucketing strategy
+ */
+export type GroupKeySpec<T> =
+  GroupKeySource<T> | DateBucket<T> | RangeBucket<T> | BoundaryBucket<T>
+
+/**
+ * Key (or keys) to group by
+ */
+export type GroupByField<T> = GroupKeySpec<T> | readonly GroupKeySpec<T>[]
+
+type GroupKeySpecValue<T, S> = S extends string
+  ? PathValue<T, S>
+  : S extends (item: never) => infer R
+    ? R
+    : S extends { date: DateBucketUnit }
+      ? Date | null
+      : S extends { boundaries: readonly (infer B)[] }
+        ? B | null
+        : S extends { width: number }
+          ? number | null
+          : unknown
+
+/**
+ * Typed key of a top-level group for the given grouping key(s)
+ */
+export type GroupKeyValue<T, F, Nested = false> = F extends readonly unknown[]
+  ? Nested extends true
+    ? F extends readonly [infer H, ...unknown[]]
+      ? GroupKeySpecValue<T, H>
+      : unknown
+    : { -readonly [I in keyof F]: GroupKeySpecValue<T, F[I]> }
+  : GroupKeySpecValue<T, F>
+
 /**
  * Result of groupBy operation
  */
-export type Collection<T> = {
+export type Collection<
+  T,
+  A extends object = Record<never, never>,
+  K = unknown,
+> = {
   /** Group name (stringified value of grouping field) */
   name: string
+  /** Original value of the grouping field (a tuple for composite keys) */
+  key: K
   /** Items in this group */
   items: T[]
   /** Number of items in group (computed) */
-  readonly count?: number
-}
+  readonly count: number
+  /** Subgroups for the next grouping field (nested grouping only) */
+  groups?: Collection<T, A>[]
+} & A
 
 // ============================================================================
 // TYPE GUARD FUNCTIONS
@@ -1,35 +1,132 @@
 import { matchesOperators } from './operators'
-import { isObject, isArray, isNullOrUndefined } from './guards'
-import type { ObjectFilter } from './types'
+import { isCollectedValues, markCollectedValues } from './operators/array'
+import { defaultContext } from './context'
+import { matchesExpression } from './expr'
+import { matchesText } from './text'
+import { getDateNormalizer } from './schema'
+import {
+  isObject,
+  isArray,
+  isMap,
+  isNullOrUndefined,
+  isNumeric,
+} from './guards'
+import type { ObjectFilter, QueryContext } from './types'
 
 const fieldAccessorCache = new Map<
   string,
   (obj: Record<string, unknown>) => unknown
 >()
 
-export function getValueByPath<T extends object>(
-  obj: T,
-  path: string
-): unknown {
-  if (!obj || !path) return undefined
+/**
+ * Wildcard segment collecting all elements of an array, e.g. `orders.$[].total`
+ */
+const ARRAY_WILDCARD = '$[]'
 
-  const dotIndex = path.indexOf('.')
+/**
+ * Check whether a path segment crosses an array by its elements rather than
+ * by index (`items.0.sku` indexes, `items.sku` and `items.$[].sku` traverse)
+ */
+function traversesArray(array: unknown, segment: string): array is unknown[] {
+  return (
+    isArray(array) && (segment === ARRAY_WILDCARD || !/^\d+$/.test(segment))
+  )
+}
 
-  if (dotIndex === -1) {
-    return (obj as Record<string, unknown>)[path]
+/**
+ * Key of a Map entry for a path segment: the segment itself, or the number it
+ * spells when the Map has no string key (`scores.42` reads `scores.get(42)`)
+ */
+function getMapKey(map: Map<unknown, unknown>, segment: string): unknown {
+  if (map.has(segment)) {
+    return segment
+  }
+  const number = Number(segment)
+  return String(number) === segment ? number : segment
+}
+
+/**
+ * Value of a path segment: a property of an object, or an entry of a Map
+ */
+function getSegment(value: unknown, segment: string): unknown {
+  return isMap(value)
+    ? value.get(getMapKey(value, segment))
+    : (value as Record<string, unknown>)[segment]
+}
+
+/**
+ * Resolve path segments from `start`. Arrays crossed by element are traversed
+ * and the values found in their elements are collected (see isCollectedValues).
+ */
+function resolveSegments(
+  value: unknown,
+  parts: string[],
+  start: number
+): unknown {
+  let current = value
+  for (let i = start; i < parts.length; i++) {
+    if (isNullOrUndefined(current)) {
+      return undefined
+    }
+    const part = parts[i]
+    if (traversesArray(current, part)) {
+      return collectElements(
+        current,
+        parts,
+        part === ARRAY_WILDCARD ? i + 1 : i
+      )
+    }
+    current = getSegment(current, part)
   }
+  return current
+}
+
+/**
+ * Collect the values at the remaining path of each array element, flattening
+ * values collected from nested arrays and skipping elements without the path
+ */
+function collectElements(
+  elements: unknown[],
+  parts: string[],
+  start: number
+): unknown[] {
+  const values: unknown[] = []
+  for (const element of elements) {
+    const value = resolveSegments(element, parts, start)
+    if (isCollectedValues(value)) {
+      value.forEach((item) => values.push(item))
+    } else if (value !== undefined) {
+      values.push(value)
+    }
+  }
+  return markCollectedValues(values)
+}
 
+/**
+ * Get a cached accessor function for a dot path.
+ * Paths crossing arrays (`orders.total`) return the collected values of all elements.
+ */
+export function getPathAccessor(
+  path: string
+): (obj: Record<string, unknown>) => unknown {
   let accessor = fieldAccessorCache.get(path)
   if (!accessor) {
     const parts = path.split('.')
     switch (parts.length) {
+      case 1: {
+        accessor = (o) => (o as Record<string, unknown>)?.[path]
+        break
+      }
       case 2: {
         const [p0, p1] = parts
         accessor = (o) => {
           const obj1 = (o as Record<string, unknown>)?.[p0]
-          return !isNullOrUndefined(obj1)
-            ? (obj1 as Record<string, unknown>)[p1]
-            : undefined
+          if (isNullOrUndefined(obj1)) {
+            return undefined
+          }
+          return isArray(obj1)
+            ? resolveSegments(obj1, parts, 1)
+            : getSegment(obj1, p1)
         }
         break
       }
@@ -38,30 +135,72 @@ export function getValueByPath<T extends object>(
         accessor = (o) => {
           const obj1 = (o as Record<string, unknown>)?.[p0_3]
           if (isNullOrUndefined(obj1)) return undefined
-          const obj2 = (obj1 as Record<string, unknown>)[p1_3]
-          return !isNullOrUndefined(obj2)
-            ? (obj2 as Record<string, unknown>)[p2_3]
-            : undefined
+          if (isArray(obj1)) {
+            return resolveSegments(obj1, parts, 1)
+          }
+          const obj2 = getSegment(obj1, p1_3)
+          if (isNullOrUndefined(obj2)) {
+            return undefined
+          }
+          return isArray(obj2)
+            ? resolveSegments(obj2, parts, 2)
+            : getSegment(obj2, p2_3)
         }
         break
       }
       default:
-        accessor = (o) => {
-          let current: unknown = o
-          for (
-            let i = 0;
-            i < parts.length && !isNullOrUndefined(current);
-            i++
-          ) {
-            current = (current as Record<string, unknown>)[parts[i]]
-          }
-          return current
-        }
+        accessor = (o) => resolveSegments(o, parts, 0)
     }
     fieldAccessorCache.set(path, accessor)
   }
 
-  return accessor(obj as Record<string, unknown>)
+  return accessor
+}
+
+export function getValueByPath<T extends object>(
+  obj: T,
+  path: string
+): unknown {
+  if (!obj || !path) return undefined
+
+  const dotIndex = path.indexOf('.')
+
+  if (dotIndex === -1) {
+    return (obj as Record<string, unknown>)[path]
+  }
+
+  return getPathAccessor(path)(obj as Record<string, unknown>)
+}
+
+/**
+ * Check whether path segments from `start` exist, in any element of arrays
+ * crossed by element
+ */
+function segmentsExist(
+  value: unknown,
+  parts: string[],
+  start: number
+): boolean {
+  let current = value
+  for (let i = start; i < parts.length; i++) {
+    const part = parts[i]
+    if (traversesArray(current, part)) {
+      const next = part === ARRAY_WILDCARD ? i + 1 : i
+      return next === parts.length
+        ? current.length > 0
+        : current.some((element) => segmentsExist(element, parts, next))
+    }
+    if (!isObject(current) && !isArray(current) && !isMap(current)) {
+      return false
+    }
+    if (i === parts.length - 1) {
+      return isMap(current)
+        ? current.has(getMapKey(current, part))
+        : part in current
+    }
+    current = getSegment(current, part)
+  }
+  return true
 }
 
 export function pathExists<T extends object>(obj: T, path: string): boolean {
@@ -72,21 +211,28 @@ export function pathExists<T extends object>(obj: T, path: string): boolean {
     return path in (obj as Record<string, unknown>)
   }
 
-  const parts = path.split('.')
-  let current: unknown = obj
-
-  for (let i = 0; i < parts.length - 1; i++) {
-    if (isNullOrUndefined(current) || !isObject(current)) return false
-    current = (current as Record<string, unknown>)[parts[i]]
-  }
+  return segmentsExist(obj, path.split('.'), 0)
+}
 
-  if (isNullOrUndefined(current) || !isObject(current)) return false
-  return parts[parts.length - 1] in (current as Record<string, unknown>)
+/**
+ * Check whether a filter key is a logical operator, built in or registered with the context
+ */
+function isLogicalKey(key: string, context: QueryContext): boolean {
+  return (
+    key === '$and' ||
+    key === '$or' ||
+    key === '$not' ||
+    key === '$nor' ||
+    key === '$expr' ||
+    key === '$text' ||
+    context.logicalOperators.has(key)
+  )
 }
 
 export function matchesFilter<T extends Record<string, unknown>>(
   obj: T,
-  filter: ObjectFilter<T>
+  filter: ObjectFilter<T>,
+  context: QueryContext = defaultContext
 ): boolean {
   if (!isObject(obj)) return false
   if (!isObject(filter)) return false
@@ -95,7 +241,7 @@ export function matchesFilter<T extends Record<string, unknown>>(
   let hasLogical = false
 
   for (const key in filter) {
-    if (key === '$and' || key === '$or' || key === '$not' || key === '$nor') {
+    if (isLogicalKey(key, context)) {
       hasLogical = true
     } else if (filter[key] !== undefined) {
       hasFields = true
@@ -107,7 +253,7 @@ export function matchesFilter<T extends Record<string, unknown>>(
       const andConditions = filter.$and
       if (isArray(andConditions)) {
         for (let i = 0; i < andConditions.length; i++) {
-          if (!matchesFilter(obj, andConditions[i])) return false
+          if (!matchesFilter(obj, andConditions[i], context)) return false
         }
       }
     }
@@ -117,7 +263,7 @@ export function matchesFilter<T extends Record<string, unknown>>(
       if (isArray(orConditions)) {
         let matched = false
         for (let i = 0; i < orConditions.length; i++) {
-          if (matchesFilter(obj, orConditions[i])) {
+          if (matchesFilter(obj, orConditions[i], context)) {
             matched = true
             break
           }
@@ -133,7 +279,7 @@ export function matchesFilter<T extends Record<string, unknown>>(
         isObject(notCondition) &&
         !isArray(notCondition)
       ) {
-        if (matchesFilter(obj, notCondition)) return false
+        if (matchesFilter(obj, notCondition, context)) return false
       }
     }
 
@@ -141,7 +287,33 @@ export function matchesFilter<T extends Record<string, unknown>>(
       const norConditions = filter.$nor
       if (isArray(norConditions)) {
         for (let i = 0; i < norConditions.length; i++) {
-          if (matchesFilter(obj, norConditions[i])) return false
+          if (matchesFilter(obj, norConditions[i], context)) return false
+        }
+      }
+    }
+
+    if ('$expr' in filter) {
+      if (!matchesExpression(obj, filter.$expr)) {
+        return false
+      }
+    }
+
+    if ('$text' in filter) {
+      if (!matchesText(obj, filter.$text)) {
+        return false
+      }
+    }
+
+    if (context.logicalOperators.size > 0) {
+      for (const key in filter) {
+        const operator = context.logicalOperators.get(key)
+        if (
+          operator &&
+          !operator.evaluate(obj, filter[key], (nested) =>
+            matchesFilter(obj, nested as ObjectFilter<T>, context)
+          )
+        ) {
+          return false
         }
       }
     }
@@ -149,38 +321,60 @@ export function matchesFilter<T extends Record<string, unknown>>(
 
   if (hasFields) {
     for (const key in filter) {
-      if (key === '$and' || key === '$or' || key === '$not' || key === '$nor')
+      if (isLogicalKey(key, context)) {
         continue
+      }
 
       const condition = filter[key]
       if (condition === undefined) continue
 
-      if (
-        !isNullOrUndefined(condition) &&
-        isObject(condition) &&
-        '$exists' in condition
-      ) {
-        const existsCondition = (condition as Record<string, unknown>).$exists
-        if (typeof existsCondition === 'boolean') {
-          const exists = pathExists(obj, key)
-          if (existsCondition !== exists) return false
-
-          const otherCondition = { ...condition }
-          delete otherCondition.$exists
-          if (Object.keys(otherCondition).length > 0) {
-            const objectValue = getValueByPath(obj, key)
-            if (!matchesOperators(objectValue, otherCondition)) return false
-          }
-          continue
+      if (!matchesField(obj, key, condition, context)) return false
+    }
+  }
+
+  return true
+}
+
+/**
+ * Check a single field condition of a filter, including `$exists` handling.
+ * Values and operands of date paths in the schema are converted to dates.
+ */
+export function matchesField<T extends Record<string, unknown>>(
+  obj: T,
+  key: string,
+  fieldCondition: unknown,
+  context: QueryContext = defaultContext
+): boolean {
+  const dates = getDateNormalizer(key, fieldCondition, context)
+  const condition = dates ? dates.condition : fieldCondition
+  const getValue = () => {
+    const value = getValueByPath(obj, key)
+    return dates ? dates.normalize(value) : value
+  }
+
+  if (
+    !isNullOrUndefined(condition) &&
+    isObject(condition) &&
+    '$exists' in condition
+  ) {
+    const existsCondition = (condition as Record<string, unknown>).$exists
+    if (typeof existsCondition === 'boolean') {
+      const exists = pathExists(obj, key)
+      if (existsCondition !== exists) return false
+
+      const otherCondition = { ...condition }
+      delete otherCondition.$exists
+      if (Object.keys(otherCondition).length > 0) {
+        const objectValue = getValue()
+        if (!matchesOperators(objectValue, otherCondition, context)) {
+          return false
         }
       }
-
-      const objectValue = getValueByPath(obj, key)
-      if (!matchesOperators(objectValue, condition)) return false
+      return true
     }
   }
 
-  return true
+  return matchesOperators(getValue(), condition, context)
 }
 
 export function compareValues(a: unknown, b: unknown): number {
@@ -189,6 +383,21 @@ export function compareValues(a: unknown, b: unknown): number {
   const aType = typeof a
   const bType = typeof b
 
+  // BigInts compare by value with each other and with numbers
+  if (
+    isNumeric(a) &&
+    isNumeric(b) &&
+    (aType === 'bigint' || bType === 'bigint')
+  ) {
+    if (Number.isNaN(a)) {
+      return 1
+    }
+    if (Number.isNaN(b)) {
+      return -1
+    }
+    return a < b ? -1 : a > b ? 1 : 0
+  }
+
   if (aType === bType) {
     switch (aType) {
       case 'string':
@@ -0,0 +1,563 @@
+import {
+  InvalidOperandError,
+  InvalidPathError,
+  QueryError,
+  UnknownOperatorError,
+  formatQueryPath,
+} from './errors'
+import {
+  isArray,
+  isBigInt,
+  isDate,
+  isNumber,
+  isNumeric,
+  isObject,
+  isRegExp,
+  isString,
+} from './guards'
+import { defaultContext } from './context'
+import { isValueType, valueTypes } from './operators/type'
+import { datePartOperators } from './operators/date'
+import { getDateNormalizer } from './schema'
+import {
+  expressionOperators,
+  getExpressionOperator,
+  isFieldReference,
+} from './expr'
+import type { ObjectQuery, QueryContext } from './types'
+
+type Segments = readonly (string | number)[]
+
+/**
+ * Checks an operand and returns a description of the expected operand if it is invalid
+ */
+type OperandValidator = (operand: unknown) => string | undefined
+
+const anyOperand: OperandValidator = () => undefined
+
+const orderedOperand: OperandValidator = (operand) =>
+  isNumeric(operand) || isString(operand) || isDate(operand)
+    ? undefined
+    : 'a number, bigint, string or date'
+
+const isInteger = (value: unknown): boolean =>
+  isBigInt(value) || (isNumber(value) && Number.isInteger(value))
+
+const isNonNegativeInteger = (value: unknown): boolean =>
+  isInteger(value) && (value as number | bigint) >= 0
+
+const bitsOperand: OperandValidator = (operand) =>
+  isNonNegativeInteger(operand) ||
+  (isArray(operand) &&
+    operand.every(
+      (position) => isNumber(position) && isNonNegativeInteger(position)
+    ))
+    ? undefined
+    : 'a non-negative integer mask or an array of bit positions'
+
+const arrayOperand: OperandValidator = (operand) =>
+  isArray(operand) ? undefined : 'an array'
+
+const stringOperand: OperandValidator = (operand) =>
+  isString(operand) ? undefined : 'a string'
+
+const durationUnits = [
+  'years',
+  'quarters',
+  'months',
+  'weeks',
+  'days',
+  'hours',
+  'minutes',
+  'seconds',
+]
+
+const durationOperand: OperandValidator = (operand) =>
+  isObject(operand) &&
+  Object.keys(operand).length > 0 &&
+  Object.entries(operand).every(
+    ([unit, amount]) =>
+      durationUnits.includes(unit) &&
+      isNumber(amount) &&
+      Number.isFinite(amount) &&
+      amount >= 0
+  )
+    ? undefined
+    : `a duration of non-negative ${durationUnits.join(', ')}`
+
+const sameDateOperand: OperandValidator = (operand) =>
+  isDate(operand) || operand === 'now' ? undefined : 'a date or "now"'
+
+const datePartOperand: OperandValidator = (operand) =>
+  isNumber(operand) || isObject(operand) ? undefined : 'a number or operators'
+
+/**
+ * Field operators supported by matchesOperators and their operand checks
+ */
+const operandValidators: Record<string, OperandValidator> = {
+  $eq: anyOperand,
+  $ne: anyOperand,
+  $gt: orderedOperand,
+  $gte: orderedOperand,
+  $lt: orderedOperand,
+  $lte: orderedOperand,
+  $in: arrayOperand,
+  $nin: arrayOperand,
+  $all: arrayOperand,
+  $contains: anyOperand,
+  $startsWith: stringOperand,
+  $endsWith: stringOperand,
+  $fuzzy: (operand) => {
+    if (isString(operand)) {
+      return undefined
+    }
+    const expected = 'a search term or { value, maxDistance?, minSimilarity? }'
+    if (!isObject(operand) || !isString(operand.value)) {
+      return expected
+    }
+    const { maxDistance, minSimilarity } = operand
+    if (
+      maxDistance !== undefined &&
+      !(
+        isNumber(maxDistance) &&
+        Number.isInteger(maxDistance) &&
+        maxDistance >= 0
+      )
+    ) {
+      return expected
+    }
+    if (
+      minSimilarity !== undefined &&
+      !(isNumber(minSimilarity) && minSimilarity >= 0 && minSimilarity <= 1)
+    ) {
+      return expected
+    }
+    return undefined
+  },
+  $regex: (operand) => {
+    if (isRegExp(operand)) {
+      return undefined
+    }
+    if (!isString(operand)) {
+      return 'a string or RegExp'
+    }
+    try {
+      new RegExp(operand)
+      return undefined
+    } catch {
+      return 'a valid regular expression'
+    }
+  },
+  $between: (operand) =>
+    (isArray(operand) && operand.length === 2) ||
+    (isObject(operand) && 'min' in operand && 'max' in operand)
+      ? undefined
+      : 'a [min, max] pair or { min, max }',
+  $exists: (operand) =>
+    typeof operand === 'boolean' ? undefined : 'a boolean',
+  $mod: (operand) =>
+    isArray(operand) &&
+    operand.length === 2 &&
+    isInteger(operand[0]) &&
+    isInteger(operand[1]) &&
+    Number(operand[0]) !== 0
+      ? undefined
+      : 'a [divisor, remainder] pair of integers with a non-zero divisor',
+  $bitsAllSet: bitsOperand,
+  $bitsAnySet: bitsOperand,
+  $bitsAllClear: bitsOperand,
+  $type: (operand) =>
+    isValueType(operand) ||
+    (isArray(operand) && operand.length > 0 && operand.every(isValueType))
+      ? undefined
+      : `one or more of ${valueTypes.join(', ')}`,
+  $options: (operand) => {
+    if (!isString(operand)) {
+      return 'a string'
+    }
+    try {
+      new RegExp('', operand)
+      return undefined
+    } catch {
+      return 'valid regular expression flags'
+    }
+  },
+  $caseSensitive: (operand) =>
+    typeof operand === 'boolean' ? undefined : 'a boolean',
+  $collation: (operand) => {
+    const expected = 'a collation with a valid locale and sensitivity'
+    if (!isObject(operand)) {
+      return expected
+    }
+    const { locale, sensitivity } = operand
+    if (
+      sensitivity !== undefined &&
+      !['base', 'accent', 'case', 'variant'].includes(sensitivity as string)
+    ) {
+      return expected
+    }
+    try {
+      new Intl.Collator(locale as string | undefined)
+      return undefined
+    } catch {
+      return expected
+    }
+  },
+  $withinLast: durationOperand,
+  $withinNext: durationOperand,
+  $sameDay: sameDateOperand,
+  $sameMonth: sameDateOperand,
+  $sameYear: sameDateOperand,
+  $year: datePartOperand,
+  $month: datePartOperand,
+  $dayOfMonth: datePartOperand,
+  $dayOfWeek: datePartOperand,
+  $hour: datePartOperand,
+  $timeZone: (operand) => {
+    if (!isString(operand)) {
+      return 'an IANA time zone'
+    }
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: operand })
+      return undefined
+    } catch {
+      return 'an IANA time zone'
+    }
+  },
+  $not: anyOperand,
+  $or: arrayOperand,
+  $and: arrayOperand,
+  $size: (operand) =>
+    isNumber(operand) && Number.isInteger(operand) && operand >= 0
+      ? undefined
+      : 'a non-negative integer',
+  $elemMatch: (operand) => (isObject(operand) ? undefined : 'a filter object'),
+}
+
+const logicalOperators = ['$and', '$or', '$not', '$nor', '$expr', '$text']
+
+/**
+ * Check whether an operator name is built in (field or logical operator)
+ */
+export function isBuiltinOperator(name: string): boolean {
+  return (
+    Object.prototype.hasOwnProperty.call(operandValidators, name) ||
+    logicalOperators.includes(name)
+  )
+}
+
+/**
+ * Throw InvalidOperandError if a validator rejects the operand
+ */
+function validateOperand(
+  operator: string,
+  operand: unknown,
+  validator: OperandValidator,
+  at: Segments
+): void {
+  const expected = validator(operand)
+  if (expected) {
+    throw new InvalidOperandError(
+      operator,
+      operand,
+      expected,
+      formatQueryPath(at)
+    )
+  }
+}
+
+/**
+ * Check that a field path can resolve: no empty segments or surrounding whitespace
+ */
+function validatePath(field: string, at: Segments): void {
+  if (
+    field.trim() !== field ||
+    field.split('.').some((segment) => segment === '')
+  ) {
+    throw new InvalidPathError(field, formatQueryPath(at))
+  }
+}
+
+/**
+ * Check whether an `$elemMatch` condition uses field operators rather than filter keys
+ */
+function isOperatorCondition(
+  condition: unknown,
+  context: QueryContext
+): boolean {
+  return (
+    isObject(condition) &&
+    Object.keys(condition).some(
+      (key) =>
+        (Object.prototype.hasOwnProperty.call(operandValidators, key) &&
+          !logicalOperators.includes(key)) ||
+        context.operators.has(key)
+    )
+  )
+}
+
+/**
+ * Validate a field condition: a literal, or an object of operators and nested properties.
+ * On a date path of the schema, operands are checked after their conversion to dates.
+ */
+function validateCondition(
+  fieldCondition: unknown,
+  at: Segments,
+  context: QueryContext,
+  path?: string
+): void {
+  const dates =
+    path === undefined
+      ? undefined
+      : getDateNormalizer(path, fieldCondition, context)
+  const condition = dates ? dates.condition : fieldCondition
+  if (!isObject(condition) || isDate(condition) || isRegExp(condition)) {
+    return
+  }
+
+  for (const key in condition) {
+    const operand = condition[key]
+    const operandAt = [...at, key]
+
+    if (key.charCodeAt(0) !== 36) {
+      validateCondition(operand, operandAt, context)
+      continue
+    }
+
+    const custom = context.operators.get(key)
+    const validator =
+      operandValidators[key] ?? (custom && (custom.validate ?? anyOperand))
+    if (!validator) {
+      throw new UnknownOperatorError(key, formatQueryPath(operandAt))
+    }
+    validateOperand(key, operand, validator, operandAt)
+    if (key === '$not' || datePartOperators[key]) {
+      validateCondition(operand, operandAt, context)
+    } else if ((key === '$or' || key === '$and') && isArray(operand)) {
+      operand.forEach((branch, i) =>
+        validateCondition(branch, [...operandAt, i], context)
+      )
+    } else if (key === '$elemMatch') {
+      // Operators apply to primitive elements, filters to object elements
+      if (isOperatorCondition(operand, context)) {
+        validateCondition(operand, operandAt, context)
+      } else {
+        validateFilter(operand, operandAt, context)
+      }
+    }
+  }
+}
+
+/**
+ * Validate an `$expr` expression: field references, operators and their arguments
+ */
+function validateExpression(expression: unknown, at: Segments): void {
+  if (isFieldReference(expression)) {
+    validatePath(expression.slice(1), at)
+    return
+  }
+
+  const operator = getExpressionOperator(expression)
+  if (operator === undefined || operator === '$literal') {
+    return
+  }
+
+  const operand = (expression as Record<string, unknown>)[operator]
+  const operatorAt = [...at, operator]
+  const definition = expressionOperators[operator]
+  if (!definition) {
+    throw new UnknownOperatorError(operator, formatQueryPath(operatorAt))
+  }
+  const { minArgs, maxArgs } = definition
+  if (
+    !isArray(operand) ||
+    operand.length < minArgs ||
+    operand.length > maxArgs
+  ) {
+    throw new InvalidOperandError(
+      operator,
+      operand,
+      maxArgs === Infinity
+        ? `an array of at least ${minArgs} expressions`
+        : `an array of ${minArgs} expressions`,
+      formatQueryPath(operatorAt)
+    )
+  }
+  operand.forEach((arg, i) => validateExpression(arg, [...operatorAt, i]))
+}
+
+/**
+ * Validate a `$text` search: a search string and a non-empty list of paths
+ * or an object of positive path weights
+ */
+function validateTextSearch(text: unknown, at: Segments): void {
+  const fields = isObject(text) ? text.fields : undefined
+  const paths = isArray(fields)
+    ? fields
+    : isObject(fields)
+      ? Object.keys(fields)
+      : []
+  if (
+    !isObject(text) ||
+    !isString(text.search) ||
+    paths.length === 0 ||
+    !paths.every(isString) ||
+    (!isArray(fields) &&
+      !Object.values(fields as object).every(
+        (weight) => isNumber(weight) && weight > 0
+      ))
+  ) {
+    throw new InvalidOperandError(
+      '$text',
+      text,
+      '{ search, fields } with a list of paths or path weights',
+      formatQueryPath(at)
+    )
+  }
+  paths.forEach((path) => validatePath(path as string, [...at, 'fields']))
+}
+
+/**
+ * Validate a filter object: logical operators, field paths and field conditions
+ */
+function validateFilter(
+  filter: unknown,
+  at: Segments,
+  context: QueryContext
+): void {
+  if (!isObject(filter)) {
+    throw new QueryError('Expected a filter object', formatQueryPath(at))
+  }
+
+  for (const key in filter) {
+    const value = filter[key]
+    const keyAt = [...at, key]
+
+    if (key === '$and' || key === '$or' || key === '$nor') {
+      if (!isArray(value)) {
+        throw new InvalidOperandError(
+          key,
+          value,
+          'an array of filters',
+          formatQueryPath(keyAt)
+        )
+      }
+      value.forEach((item, i) => validateFilter(item, [...keyAt, i], context))
+    } else if (key === '$not') {
+      if (!isObject(value)) {
+        throw new InvalidOperandError(
+          key,
+          value,
+          'a filter object',
+          formatQueryPath(keyAt)
+        )
+      }
+      validateFilter(value, keyAt, context)
+    } else if (key === '$expr') {
+      validateExpression(value, keyAt)
+    } else if (key === '$text') {
+      validateTextSearch(value, keyAt)
+    } else if (key.charCodeAt(0) === 36) {
+      const custom = context.logicalOperators.get(key)
+      if (!custom) {
+        throw new UnknownOperatorError(key, formatQueryPath(keyAt))
+      }
+      validateOperand(key, value, custom.validate ?? anyOperand, keyAt)
+    } else {
+      validatePath(key, keyAt)
+      validateCondition(value, keyAt, context, key)
+    }
+  }
+}
+
+function validatePaths(paths: unknown, option: string): void {
+  if (!isArray(paths)) {
+    throw new QueryError('Expected an array of paths', option)
+  }
+  paths.forEach((path, i) => {
+    if (!isString(path)) {
+      throw new QueryError('Expected a path', formatQueryPath([option, i]))
+    }
+    validatePath(path, [option, i])
+  })
+}
+
+function validateCount(count: unknown, option: string): void {
+  if (!isNumber(count) || !Number.isInteger(count) || count < 0) {
+    throw new QueryError('Expected a non-negative integer', option)
+  }
+}
+
+/**
+ * Validate a query, throwing on the first problem found
+ *
+ * Unknown operators, malformed operands and unresolvable paths are reported
+ * with their location inside the query. Queries with `strict: true` are
+ * validated automatically by the query functions.
+ *
+ * @param query - Query configuration to validate
+ * @param context - Operators of an engine (see createEngine), built-in operators by default
+ * @throws UnknownOperatorError for unknown `$` keys, e.g. `$contians`
+ * @throws InvalidOperandError for malformed operands, e.g. `$in` with a non-array
+ * @throws InvalidPathError for paths with empty segments or surrounding whitespace
+ * @throws QueryError for other invalid options (orderBy, skip, take, select, omit)
+ *
+ * @example
+ * validateQuery({ where: { tags: { $in: "books" } } })
+ * // InvalidOperandError: Invalid operand for $in: expected an array at where.tags.$in
+ */
+export function validateQuery<T>(
+  query: ObjectQuery<T>,
+  context: QueryContext = defaultContext
+): void {
+  if (!isObject(query)) {
+    throw new QueryError('Expected a query object', '')
+  }
+
+  const { where, orderBy, skip, take, cursor, select, omit } = query
+
+  if (isArray(where)) {
+    where.forEach((filter, i) => validateFilter(filter, ['where', i], context))
+  } else if (where !== undefined) {
+    validateFilter(where, ['where'], context)
+  }
+
+  if (orderBy !== undefined) {
+    if (!isObject(orderBy)) {
+      throw new QueryError('Expected an object of sort directions', 'orderBy')
+    }
+    for (const [path, direction] of Object.entries(orderBy)) {
+      validatePath(path, ['orderBy', path])
+      if (direction !== 'asc' && direction !== 'desc') {
+        throw new QueryError(
+          `Invalid sort direction ${JSON.stringify(direction)}: expected "asc" or "desc"`,
+          formatQueryPath(['orderBy', path])
+        )
+      }
+    }
+  }
+
+  if (skip !== undefined) {
+    validateCount(skip, 'skip')
+  }
+  if (take !== undefined) {
+    validateCount(take, 'take')
+  }
+
+  if (cursor !== undefined) {
+    if (!isObject(cursor)) {
+      throw new QueryError('Expected an object of key values', 'cursor')
+    }
+    Object.keys(cursor).forEach((path) => validatePath(path, ['cursor', path]))
+    if (cursor.$ties !== undefined) {
+      validateCount(cursor.$ties, 'cursor.$ties')
+    }
+  }
+
+  if (select !== undefined) {
+    validatePaths(select, 'select')
+  }
+  if (omit !== undefined) {
+    validatePaths(omit, 'omit')
+  }
+}
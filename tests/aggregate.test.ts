@@ -0,0 +1,81 @@
+import { describe, it, expect, expectTypeOf } from 'vitest'
+import { aggregate } from '../src/index'
+
+const orders = [
+  {
+    id: 1,
+    status: 'paid',
+    customer: 'carol',
+    pricing: { total: 120, discount: 20 },
+    createdAt: new Date('2024-03-01'),
+  },
+  {
+    id: 2,
+    status: 'paid',
+    customer: 'alice',
+    pricing: { total: 80, discount: null as number | null },
+    createdAt: new Date('2024-01-15'),
+  },
+  {
+    id: 3,
+    status: 'open',
+    customer: 'bob',
+    pricing: { total: 40, discount: 5 },
+    createdAt: new Date('2024-02-10'),
+  },
+]
+
+describe('aggregate', () => {
+  it('counts, sums and averages nested numeric fields', () => {
+    const result = aggregate(orders, {
+      where: { status: 'paid' },
+      _count: true,
+      _sum: { 'pricing.total': true },
+      _avg: { 'pricing.total': true },
+    })
+    expect(result).toEqual({
+      _count: 2,
+      _sum: { 'pricing.total': 200 },
+      _avg: { 'pricing.total': 100 },
+    })
+    expectTypeOf(result._count).toEqualTypeOf<number>()
+    expectTypeOf(result._sum['pricing.total']).toEqualTypeOf<number | null>()
+  })
+
+  it('counts non-null values per path', () => {
+    const result = aggregate(orders, {
+      _count: { _all: true, 'pricing.discount': true },
+    })
+    expect(result._count).toEqual({ _all: 3, 'pricing.discount': 2 })
+  })
+
+  it('finds min and max of dates and strings', () => {
+    const result = aggregate(orders, {
+      _min: { createdAt: true, customer: true },
+      _max: { createdAt: true, 'pricing.total': true },
+    })
+    expect(result._min).toEqual({
+      createdAt: new Date('2024-01-15'),
+      customer: 'alice',
+    })
+    expect(result._max).toEqual({
+      createdAt: new Date('2024-03-01'),
+      'pricing.total': 120,
+    })
+    expectTypeOf(result._min.createdAt).toEqualTypeOf<Date | null>()
+  })
+
+  it('returns null aggregates when nothing matches', () => {
+    const result = aggregate(orders, {
+      where: { status: 'refunded' },
+      _count: true,
+      _sum: { 'pricing.total': true },
+      _min: { createdAt: true },
+    })
+    expect(result).toEqual({
+      _count: 0,
+      _sum: { 'pricing.total': null },
+      _min: { createdAt: null },
+    })
+  })
+})
@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest'
+import {
+  compileQuery,
+  createCollection,
+  diagnose,
+  findFirst,
+  findMany,
+} from '../src/index'
+import type { ObjectFilter } from '../src/index'
+import { getValueByPath, pathExists } from '../src/utils'
+
+type Order = {
+  status: string
+  total: number
+  items: { sku: string; tags: string[] }[]
+}
+
+type Customer = {
+  name: string
+  orders: Order[]
+  scores: number[]
+}
+
+const customers: Customer[] = [
+  {
+    name: 'Ada',
+    orders: [
+      {
+        status: 'paid',
+        total: 120,
+        items: [
+          { sku: 'A1', tags: ['new'] },
+          { sku: 'B2', tags: [] },
+        ],
+      },
+      { status: 'open', total: 15, items: [{ sku: 'C3', tags: ['sale'] }] },
+    ],
+    scores: [3, 9],
+  },
+  {
+    name: 'Grace',
+    orders: [{ status: 'open', total: 60, items: [] }],
+    scores: [5],
+  },
+  { name: 'Linus', orders: [], scores: [] },
+]
+
+const names = (items: Customer[]) => items.map((item) => item.name)
+
+describe('array traversal in paths', () => {
+  it('collects values through arrays', () => {
+    const [ada] = customers
+    expect(getValueByPath(ada, 'orders.total')).toEqual([120, 15])
+    expect(getValueByPath(ada, 'orders.items.sku')).toEqual(['A1', 'B2', 'C3'])
+    expect(getValueByPath(ada, 'orders.$[].total')).toEqual([120, 15])
+    expect(getValueByPath(ada, 'scores.$[]')).toEqual([3, 9])
+    expect(getValueByPath(ada, 'orders.items.tags')).toEqual([
+      ['new'],
+      [],
+      ['sale'],
+    ])
+    // Numeric segments still index into arrays
+    expect(getValueByPath(ada, 'orders.0.items.1.sku')).toBe('B2')
+    expect(getValueByPath(ada, 'orders.1.items.sku')).toEqual(['C3'])
+    expect(getValueByPath(ada, 'scores')).toEqual([3, 9])
+  })
+
+  it('checks existence in any element', () => {
+    expect(pathExists(customers[0], 'orders.items.sku')).toBe(true)
+    expect(pathExists(customers[1], 'orders.items.sku')).toBe(false)
+    expect(pathExists(customers[2], 'orders.total')).toBe(false)
+    expect(pathExists(customers[0], 'orders.0.total')).toBe(true)
+    expect(pathExists(customers[1], 'scores.$[]')).toBe(true)
+    expect(pathExists(customers[2], 'scores.$[]')).toBe(false)
+  })
+
+  it('matches when any element matches', () => {
+    const filters: [ObjectFilter<Customer>, string[]][] = [
+      [{ 'orders.total': { $gt: 100 } }, ['Ada']],
+      [{ 'orders.status': 'open' }, ['Ada', 'Grace']],
+      [{ 'orders.items.sku': { $in: ['C3', 'Z9'] } }, ['Ada']],
+      [{ 'orders.items.tags': { $contains: 'sale' } }, ['Ada']],
+      [{ 'orders.total': { $exists: true } }, ['Ada', 'Grace']],
+      [{ 'orders.$[].total': { $lt: 50 } }, ['Ada']],
+      [{ 'scores.$[]': { $gte: 5 } }, ['Ada', 'Grace']],
+      // Each operator may be satisfied by a different element
+      [{ 'orders.total': { $gt: 100, $lt: 20 } }, ['Ada']],
+    ] as [ObjectFilter<Customer>, string[]][]
+
+    for (const [where, expected] of filters) {
+      expect(names(findMany(customers, { where }))).toEqual(expected)
+      expect(names(findMany(customers, compileQuery({ where })))).toEqual(
+        expected
+      )
+    }
+  })
+
+  it('requires every element to satisfy negative operators', () => {
+    const filters: [ObjectFilter<Customer>, string[]][] = [
+      [{ 'orders.status': { $ne: 'open' } }, ['Linus']],
+      [{ 'orders.status': { $nin: ['paid'] } }, ['Grace', 'Linus']],
+      [{ 'orders.total': { $exists: false } }, ['Linus']],
+    ] as [ObjectFilter<Customer>, string[]][]
+
+    for (const [where, expected] of filters) {
+      expect(names(findMany(customers, { where }))).toEqual(expected)
+      expect(names(findMany(customers, compileQuery({ where })))).toEqual(
+        expected
+      )
+    }
+  })
+
+  it('sorts by the smallest value ascending and the largest descending', () => {
+    expect(
+      names(findMany(customers, { orderBy: { 'orders.total': 'asc' } }))
+    ).toEqual(['Ada', 'Grace', 'Linus'])
+    expect(
+      names(findMany(customers, { orderBy: { 'orders.total': 'desc' } }))
+    ).toEqual(['Ada', 'Grace', 'Linus'])
+    expect(
+      names(findMany(customers, { orderBy: { scores: 'asc' } }))
+    ).toHaveLength(3)
+    expect(
+      findFirst(customers, {
+        where: { 'orders.total': { $exists: true } },
+        orderBy: { 'orders.items.sku': 'desc' },
+      })?.name
+    ).toBe('Ada')
+  })
+
+  it('uses multikey collection indexes', () => {
+    const collection = createCollection(customers, {
+      indexes: { 'orders.status': 'hash', 'orders.total': 'sorted' },
+    })
+    const filters = [
+      { 'orders.status': 'open' },
+      { 'orders.total': { $gte: 60, $lte: 100 } },
+      { 'orders.total': { $gt: 100, $lt: 20 } },
+    ] as ObjectFilter<Customer>[]
+    for (const where of filters) {
+      expect(findMany(collection, { where })).toEqual(
+        findMany(customers, { where })
+      )
+    }
+
+    const [ada] = customers
+    collection.update(ada, { orders: [] })
+    expect(
+      names(findMany(collection, { where: { 'orders.status': 'paid' } }))
+    ).toEqual([])
+    collection.remove(ada)
+    expect(collection.size).toBe(2)
+  })
+
+  it('diagnoses collected values', () => {
+    const result = diagnose(customers[1], {
+      'orders.total': { $gt: 100 },
+    } as ObjectFilter<Customer>)
+    expect(result.reason).toBe('orders.total is [60], expected $gt 100')
+  })
+})
@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createCollection,
+  createEngine,
+  explain,
+  findMany,
+  validateQuery,
+} from '../src/index'
+import type { ObjectFilter, ObjectQuery, QueryEngine } from '../src/index'
+import { findBoth } from './helpers'
+
+type Person = { name: string; city: string; tags: string[] }
+
+const people: Person[] = [
+  { name: 'Müller', city: 'İstanbul', tags: ['Résumé'] },
+  { name: 'Muller', city: 'Izmir', tags: [] },
+  { name: 'MÜLLER', city: 'Berlin', tags: ['resume'] },
+  { name: 'Mueller', city: 'Köln', tags: [] },
+]
+
+const names = (items: Person[]) => items.map((item) => item.name)
+
+const run = (where: ObjectFilter<Person>, engine?: QueryEngine) =>
+  findBoth(people, { where }, 'name', engine)
+
+describe('collation', () => {
+  it('ignores accents and case with the base sensitivity', () => {
+    const collation = { locale: 'de' }
+    expect(run({ name: { $eq: 'muller', $collation: collation } })).toEqual([
+      'Müller',
+      'Muller',
+      'MÜLLER',
+    ])
+    expect(run({ name: { $ne: 'Muller', $collation: collation } })).toEqual([
+      'Mueller',
+    ])
+    expect(
+      run({ tags: { $contains: 'resume', $collation: collation } })
+    ).toEqual(['Müller', 'MÜLLER'])
+    expect(run({ name: { $startsWith: 'mu', $collation: collation } })).toEqual(
+      ['Müller', 'Muller', 'MÜLLER', 'Mueller']
+    )
+    expect(run({ city: { $endsWith: 'OLN', $collation: collation } })).toEqual([
+      'Mueller',
+    ])
+  })
+
+  it('keeps accents or case depending on the sensitivity', () => {
+    expect(
+      run({
+        name: { $eq: 'müller', $collation: { sensitivity: 'accent' } },
+      })
+    ).toEqual(['Müller', 'MÜLLER'])
+    expect(
+      run({
+        name: { $startsWith: 'Mu', $collation: { sensitivity: 'case' } },
+      })
+    ).toEqual(['Müller', 'Muller', 'Mueller'])
+    expect(
+      run({
+        name: { $contains: 'ü', $collation: { sensitivity: 'variant' } },
+      })
+    ).toEqual(['Müller'])
+  })
+
+  it('folds case for the locale', () => {
+    // Turkish dotted capital I lowers to i, dotless capital I to ı
+    expect(
+      run({ city: { $startsWith: 'ist', $collation: { locale: 'tr' } } })
+    ).toEqual(['Müller'])
+    expect(
+      run({ city: { $startsWith: 'izm', $collation: { locale: 'tr' } } })
+    ).toEqual([])
+    expect(
+      run({ city: { $startsWith: 'ızm', $collation: { locale: 'tr' } } })
+    ).toEqual(['Muller'])
+  })
+
+  it('matches substrings and affixes like collated equality', () => {
+    const engine = createEngine({ collation: { locale: 'de' } })
+    const places = [
+      { name: 'Straße' },
+      { name: 'Øresund' },
+      { name: 'Æther' },
+      { name: 'Strand' },
+    ]
+    const matching = (where: ObjectFilter<{ name: string }>) => {
+      const query = { where }
+      const interpreted = engine.findMany(places, query).map((p) => p.name)
+      expect(
+        engine.findMany(places, engine.compileQuery(query)).map((p) => p.name)
+      ).toEqual(interpreted)
+      return interpreted
+    }
+
+    expect(matching({ name: 'strasse' })).toEqual(['Straße'])
+    expect(matching({ name: { $startsWith: 'strasse' } })).toEqual(['Straße'])
+    expect(matching({ name: { $endsWith: 'SSE' } })).toEqual(['Straße'])
+    expect(matching({ name: { $contains: 'ass' } })).toEqual(['Straße'])
+    expect(matching({ name: { $contains: 'aß' } })).toEqual(['Straße'])
+    expect(matching({ name: 'oresund' })).toEqual(['Øresund'])
+    expect(matching({ name: { $contains: 'oresund' } })).toEqual(['Øresund'])
+    expect(matching({ name: { $startsWith: 'ore' } })).toEqual(['Øresund'])
+    expect(matching({ name: 'aether' })).toEqual(['Æther'])
+    expect(matching({ name: { $startsWith: 'ae' } })).toEqual(['Æther'])
+    expect(matching({ name: { $contains: 'AETH' } })).toEqual(['Æther'])
+    expect(
+      matching({
+        name: { $contains: 'ss', $collation: { sensitivity: 'variant' } },
+      })
+    ).toEqual([])
+  })
+
+  it('uses the engine collation by default', () => {
+    const engine = createEngine({ collation: { locale: 'de' } })
+    expect(run({ name: 'muller' }, engine)).toEqual([
+      'Müller',
+      'Muller',
+      'MÜLLER',
+    ])
+    expect(run({ tags: { $contains: 'RESUME' } }, engine)).toEqual([
+      'Müller',
+      'MÜLLER',
+    ])
+    expect(
+      run(
+        { name: { $eq: 'muller', $collation: { sensitivity: 'variant' } } },
+        engine
+      )
+    ).toEqual([])
+    expect(explain(people, { where: { name: 'x' } }, engine).fastPath).toBe(
+      undefined
+    )
+    expect(findMany(people, { where: { name: 'muller' } })).toEqual([])
+  })
+
+  it('does not narrow collated equality with indexes', () => {
+    const collection = createCollection(people, {
+      indexes: { name: 'hash', city: 'sorted' },
+    })
+    const engine = createEngine({ collation: { locale: 'de' } })
+    expect(
+      names(engine.findMany(collection, { where: { name: 'MULLER' } }))
+    ).toEqual(['Müller', 'Muller', 'MÜLLER'])
+    expect(
+      names(
+        findMany(collection, {
+          where: { city: { $eq: 'koln', $collation: {} } },
+        })
+      )
+    ).toEqual(['Mueller'])
+    expect(
+      engine.explain(collection, { where: { name: 'Muller' } }).indexes
+    ).toContainEqual({ path: 'name', type: 'hash', used: false })
+  })
+
+  it('validates collations', () => {
+    expect(() =>
+      validateQuery<Person>({
+        where: { name: { $eq: 'x', $collation: { locale: 'tr' } } },
+      })
+    ).not.toThrow()
+    expect(() =>
+      validateQuery({
+        where: { name: { $eq: 'x', $collation: { sensitivity: 'loose' } } },
+      } as unknown as ObjectQuery<Person>)
+    ).toThrow(
+      'Invalid operand for $collation: expected a collation with a valid locale and sensitivity at where.name.$collation'
+    )
+    expect(() =>
+      validateQuery({
+        where: { name: { $eq: 'x', $collation: { locale: '!!' } } },
+      } as unknown as ObjectQuery<Person>)
+    ).toThrow('Invalid operand for $collation')
+  })
+})
@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createCollection,
+  findMany,
+  findFirst,
+  findPage,
+  groupBy,
+  aggregate,
+} from '../src/index'
+import type { ObjectFilter } from '../src/index'
+
+type Book = {
+  id: number
+  title: string
+  genre: string
+  price: number | null
+  publishedAt: Date
+  author: { name: string }
+}
+
+function createBooks(): Book[] {
+  return [
+    {
+      id: 1,
+      title: 'Dune',
+      genre: 'scifi',
+      price: 12,
+      publishedAt: new Date('1965-08-01'),
+      author: { name: 'Herbert' },
+    },
+    {
+      id: 2,
+      title: 'Emma',
+      genre: 'classic',
+      price: 8,
+      publishedAt: new Date('1815-12-23'),
+      author: { name: 'Austen' },
+    },
+    {
+      id: 3,
+      title: 'Neuromancer',
+      genre: 'scifi',
+      price: 15,
+      publishedAt: new Date('1984-07-01'),
+      author: { name: 'Gibson' },
+    },
+    {
+      id: 4,
+      title: 'Persuasion',
+      genre: 'classic',
+      price: null,
+      publishedAt: new Date('1817-12-20'),
+      author: { name: 'Austen' },
+    },
+    {
+      id: 5,
+      title: 'Hyperion',
+      genre: 'scifi',
+      price: 20,
+      publishedAt: new Date('1989-05-26'),
+      author: { name: 'Simmons' },
+    },
+  ]
+}
+
+const indexes = {
+  genre: 'hash',
+  'author.name': 'hash',
+  price: 'sorted',
+  publishedAt: 'sorted',
+  title: 'sorted',
+} as const
+
+describe('createCollection', () => {
+  const filters: ObjectFilter<Book>[] = [
+    { genre: 'scifi' },
+    { genre: { $in: ['classic', 'poetry'] } },
+    { 'author.name': 'Austen', genre: 'classic' },
+    { price: { $gt: 10 } },
+    { price: { $gte: 12, $lt: 20 } },
+    { price: { $between: [8, 15] } },
+    { price: { $gt: 10, $lt: 'z' } },
+    { price: null },
+    { price: { $in: [8, 20] } },
+    { publishedAt: { $lt: new Date('1900-01-01') } },
+    { title: { $gte: 'E', $lt: 'O' } },
+    { genre: 'scifi', price: { $lte: 15 }, title: { $startsWith: 'n' } },
+    { $or: [{ genre: 'classic' }, { price: { $gte: 20 } }] },
+    { $or: [{ genre: 'classic' }, { title: { $endsWith: 'on' } }] },
+    { $and: [{ genre: 'scifi' }, { price: { $lt: 15 } }] },
+    [{ genre: 'scifi' }, { publishedAt: { $gt: new Date('1970-01-01') } }],
+    { $not: { genre: 'scifi' } },
+  ] as ObjectFilter<Book>[]
+
+  it.each(filters.map((where) => [JSON.stringify(where), where] as const))(
+    'returns the same objects as a plain array: %s',
+    (_, where) => {
+      const books = createBooks()
+      const collection = createCollection(books, { indexes })
+      expect(findMany(collection, { where })).toEqual(
+        findMany(books, { where })
+      )
+    }
+  )
+
+  it('keeps insertion order and supports the other query functions', () => {
+    const collection = createCollection(createBooks(), { indexes })
+
+    expect(
+      findMany(collection, {
+        where: { price: { $gte: 8 } },
+        orderBy: { price: 'desc' },
+        take: 2,
+        select: ['id'],
+      })
+    ).toEqual([{ id: 5 }, { id: 3 }])
+    expect(findFirst(collection, { where: { genre: 'classic' } })?.id).toBe(2)
+    expect(
+      findPage(collection, { where: { genre: 'scifi' }, take: 2 }).totalCount
+    ).toBe(3)
+    expect(
+      groupBy(collection, 'genre', { where: { price: { $lt: 15 } } }).map(
+        (group) => [group.key, group.count]
+      )
+    ).toEqual([
+      ['scifi', 1],
+      ['classic', 1],
+    ])
+    expect(
+      aggregate(collection, {
+        where: { genre: 'scifi' },
+        _sum: { price: true },
+      })._sum.price
+    ).toBe(47)
+  })
+
+  it('keeps indexes consistent on insert, update and remove', () => {
+    const books = createBooks()
+    const collection = createCollection(books.slice(0, 3), { indexes })
+
+    collection.insert(books[3], books[4])
+    expect(collection.size).toBe(5)
+    expect(
+      findMany(collection, { where: { price: { $gte: 15 } } }).map((b) => b.id)
+    ).toEqual([3, 5])
+
+    expect(collection.update(books[0], { genre: 'classic', price: 30 })).toBe(
+      true
+    )
+    expect(
+      findMany(collection, { where: { genre: 'classic' } }).map((b) => b.id)
+    ).toEqual([1, 2, 4])
+    expect(
+      findMany(collection, { where: { price: { $gte: 15 } } }).map((b) => b.id)
+    ).toEqual([1, 3, 5])
+
+    // Re-index after an in-place change
+    books[1].author.name = 'Woolf'
+    collection.update(books[1])
+    expect(
+      findMany(collection, { where: { 'author.name': 'Austen' } }).map(
+        (b) => b.id
+      )
+    ).toEqual([4])
+
+    expect(collection.remove(books[2])).toBe(true)
+    expect(collection.remove(books[2])).toBe(false)
+    expect(collection.update(books[2], { price: 1 })).toBe(false)
+    expect(
+      findMany(collection, { where: { genre: 'scifi' } }).map((b) => b.id)
+    ).toEqual([5])
+    expect(collection.items.map((b) => b.id)).toEqual([1, 2, 4, 5])
+  })
+
+  it('scans all items when no index applies', () => {
+    const collection = createCollection(createBooks())
+    expect(
+      findMany(collection, { where: { genre: 'scifi' } }).map((b) => b.id)
+    ).toEqual([1, 3, 5])
+    expect(findMany(createCollection<Book>(), { where: {} })).toEqual([])
+  })
+})
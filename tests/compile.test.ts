@@ -0,0 +1,156 @@
+import { describe, it, expect, expectTypeOf } from 'vitest'
+import {
+  compileQuery,
+  findMany,
+  findFirst,
+  findPage,
+  groupBy,
+} from '../src/index'
+import type { ObjectFilter } from '../src/index'
+
+type Product = {
+  id: number
+  name: string
+  category: string
+  price: number
+  tags: string[]
+  stock?: number | null
+  details: { brand: string; rating: number }
+  releasedAt: Date
+}
+
+const products: Product[] = [
+  {
+    id: 1,
+    name: 'Laptop Pro',
+    category: 'electronics',
+    price: 1200,
+    tags: ['computer', 'work'],
+    stock: 5,
+    details: { brand: 'Acme', rating: 4.5 },
+    releasedAt: new Date('2023-05-01'),
+  },
+  {
+    id: 2,
+    name: 'Desk Lamp',
+    category: 'home',
+    price: 40,
+    tags: ['light'],
+    stock: null,
+    details: { brand: 'Glow', rating: 3.9 },
+    releasedAt: new Date('2021-11-20'),
+  },
+  {
+    id: 3,
+    name: 'Phone Mini',
+    category: 'electronics',
+    price: 650,
+    tags: ['mobile', 'work'],
+    details: { brand: 'Acme', rating: 4.1 },
+    releasedAt: new Date('2024-02-14'),
+  },
+  {
+    id: 4,
+    name: 'Office Chair',
+    category: 'home',
+    price: 240,
+    tags: ['work', 'furniture'],
+    stock: 0,
+    details: { brand: 'Sitwell', rating: 4.7 },
+    releasedAt: new Date('2022-08-03'),
+  },
+]
+
+describe('compileQuery', () => {
+  const filters: ObjectFilter<Product>[] = [
+    { category: 'electronics' },
+    { price: { $gte: 240, $lt: 1200 } },
+    { 'details.brand': { $in: ['Acme', 'Glow'] } },
+    { 'details.brand': { $nin: ['Acme'] } },
+    { name: { $startsWith: 'lap' } },
+    { name: { $endsWith: 'MINI' } },
+    { name: { $regex: '^(desk|office)' } },
+    { tags: { $contains: 'work' } },
+    { tags: { $all: ['work', 'mobile'] } },
+    { stock: { $exists: true } },
+    { stock: { $exists: true, $gt: 0 } },
+    { stock: { $exists: false } },
+    { stock: null },
+    { releasedAt: { $gte: new Date('2022-01-01') } },
+    { details: { rating: { $gt: 4.2 } } },
+    { details: { brand: 'Acme', rating: 4.5 } },
+    { $or: [{ price: { $lt: 100 } }, { 'details.rating': { $gte: 4.6 } }] },
+    { $not: { category: 'home' } },
+    { $nor: [{ category: 'home' }, { price: { $gt: 1000 } }] },
+    {
+      $and: [{ tags: { $size: 2 } }, { price: { $between: [200, 700] } }],
+    },
+  ]
+
+  it.each(filters.map((where) => [JSON.stringify(where), where] as const))(
+    'matches the same objects as the interpreted query: %s',
+    (_, where) => {
+      const compiled = compileQuery<Product>({ where })
+      expect(findMany(products, compiled)).toEqual(
+        findMany(products, { where })
+      )
+    }
+  )
+
+  it('supports arrays of filters and empty queries', () => {
+    const compiled = compileQuery<Product>({
+      where: [{ category: 'home' }, { price: { $gt: 100 } }],
+    })
+    expect(findMany(products, compiled).map((p) => p.id)).toEqual([4])
+    expect(findMany(products, compileQuery<Product>())).toEqual(products)
+  })
+
+  it('sorts, pages and projects with the compiled query', () => {
+    const compiled = compileQuery<Product, 'name' | 'details.brand'>({
+      where: { tags: { $contains: 'work' } },
+      orderBy: { 'details.brand': 'asc', price: 'desc' },
+      skip: 1,
+      take: 2,
+      select: ['name', 'details.brand'],
+    })
+
+    const result = findMany(products, compiled)
+    expect(result).toEqual([
+      { name: 'Phone Mini', details: { brand: 'Acme' } },
+      { name: 'Office Chair', details: { brand: 'Sitwell' } },
+    ])
+    expectTypeOf(result).toEqualTypeOf<
+      { name: string; details: { brand: string } }[]
+    >()
+
+    const page = findPage(products, compiled)
+    expect(page.items).toEqual(result)
+    expect(page.totalCount).toBe(3)
+  })
+
+  it('works with findFirst and groupBy', () => {
+    const compiled = compileQuery<Product>({
+      where: { 'details.rating': { $gte: 4 } },
+      orderBy: { price: 'asc' },
+    })
+
+    expect(findFirst(products, compiled)?.id).toBe(1)
+    expect(findFirst(products, { ...compiled.query, skip: 1 })?.id).toBe(3)
+
+    const groups = groupBy(products, 'category', compiled)
+    expect(groups.map((group) => [group.key, group.count])).toEqual([
+      ['home', 1],
+      ['electronics', 2],
+    ])
+  })
+
+  it('exposes the predicate and comparator', () => {
+    const compiled = compileQuery<Product>({
+      where: { category: 'home' },
+      orderBy: { price: 'asc' },
+    })
+    expect(products.filter(compiled.matches).map((p) => p.id)).toEqual([2, 4])
+    expect(compiled.compare?.(products[0], products[1])).toBeGreaterThan(0)
+    expect(compileQuery<Product>({}).compare).toBeUndefined()
+  })
+})
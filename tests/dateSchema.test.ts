@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createCollection,
+  createEngine,
+  InvalidOperandError,
+} from '../src/index'
+import type { ObjectQuery } from '../src/index'
+import { compareValues } from '../src/utils'
+import { findBoth } from './helpers'
+
+type Order = {
+  id: number
+  createdAt: Date | string | Record<string, number>
+  seenAt?: number | string | null
+}
+
+const orders: Order[] = [
+  {
+    id: 1,
+    createdAt: new Date('2024-01-10T00:00:00Z'),
+    seenAt: Date.UTC(2024, 0, 12),
+  },
+  { id: 2, createdAt: '2024-02-20T12:00:00Z', seenAt: '2024-02-21' },
+  // Temporal.Instant-like
+  {
+    id: 3,
+    createdAt: { epochMilliseconds: Date.UTC(2024, 2, 5) },
+    seenAt: Date.UTC(2024, 2, 6),
+  },
+  // Temporal.PlainDate-like
+  { id: 4, createdAt: { year: 2024, month: 4, day: 1 }, seenAt: null },
+  { id: 5, createdAt: 'not a date' },
+]
+
+const ids = (items: Order[]) => items.map((item) => item.id)
+
+const engine = createEngine({
+  schema: { dates: { createdAt: 'iso', seenAt: 'epoch' } },
+})
+
+const run = (query: ObjectQuery<Order, never, never>, context = engine) =>
+  findBoth(orders, query, 'id', context)
+
+const where = (filter: object) =>
+  ({ where: filter }) as ObjectQuery<Order, never, never>
+
+describe('date schema', () => {
+  it('compares ISO strings and Temporal-like values as dates', () => {
+    const after = where({ createdAt: { $gt: new Date('2024-02-01') } })
+    expect(run(after)).toEqual([2, 3, 4])
+    expect(run(after, createEngine())).toEqual([])
+    expect(
+      run(where({ createdAt: { $between: ['2024-01-01', '2024-02-29'] } }))
+    ).toEqual([1, 2])
+    expect(run(where({ createdAt: { $month: 4 } }))).toEqual([4])
+  })
+
+  it('converts the operands of equality and membership', () => {
+    expect(run(where({ createdAt: '2024-01-10' }))).toEqual([1])
+    expect(
+      run(where({ createdAt: { $in: ['2024-03-05T00:00:00Z', '2024-04-01'] } }))
+    ).toEqual([3, 4])
+    expect(
+      run(where({ createdAt: { $ne: { year: 2024, month: 1, day: 10 } } }))
+    ).toEqual([2, 3, 4, 5])
+  })
+
+  it('accepts epoch milliseconds only on epoch paths', () => {
+    expect(
+      run(where({ seenAt: { $gte: new Date('2024-02-01T00:00:00Z') } }))
+    ).toEqual([2, 3])
+    const iso = createEngine({ schema: { dates: { seenAt: 'iso' } } })
+    expect(
+      run(where({ seenAt: { $gte: new Date('2024-02-01T00:00:00Z') } }), iso)
+    ).toEqual([2])
+  })
+
+  it('accepts date operands of date paths in strict mode', () => {
+    const strict = (filter: object) =>
+      ({ strict: true, where: filter }) as ObjectQuery<Order, never, never>
+    expect(
+      run(strict({ createdAt: { $gt: { year: 2024, month: 3, day: 1 } } }))
+    ).toEqual([3, 4])
+    expect(run(strict({ createdAt: { $sameDay: '2024-02-20' } }))).toEqual([2])
+    expect(
+      run(strict({ seenAt: { $not: { $lt: Date.UTC(2024, 1, 1) } } }))
+    ).toEqual([2, 3, 4, 5])
+    expect(run(strict({ seenAt: { $sameDay: Date.UTC(2024, 2, 6) } }))).toEqual(
+      [3]
+    )
+    expect(() =>
+      engine.findMany(
+        orders,
+        strict({ createdAt: { $sameDay: Date.UTC(2024, 1, 20) } })
+      )
+    ).toThrow(InvalidOperandError)
+    expect(() =>
+      engine.findMany(orders, strict({ createdAt: { $sameDay: 'tomorrow' } }))
+    ).toThrow(InvalidOperandError)
+  })
+
+  it('sorts by the dates of a path', () => {
+    expect(
+      run({
+        where: { createdAt: { $type: 'date' } },
+        orderBy: { createdAt: 'desc' },
+      })
+    ).toEqual([4, 3, 2, 1])
+  })
+
+  it('does not narrow date paths with indexes', () => {
+    const collection = createCollection(orders, {
+      indexes: { createdAt: 'sorted' },
+    })
+    const query = where({ createdAt: { $gte: '2024-03-01' } })
+    expect(ids(engine.findMany(collection, query))).toEqual([3, 4])
+    expect(engine.explain(collection, query).indexes).toContainEqual({
+      path: 'createdAt',
+      type: 'sorted',
+      used: false,
+    })
+  })
+
+  it('compares Temporal-like values as dates only on schema paths', () => {
+    const query = {
+      where: { createdAt: { $type: 'date' } },
+      _min: { createdAt: true },
+      _max: { createdAt: true },
+    } as const
+    expect(engine.aggregate(orders, query)).toEqual({
+      _min: { createdAt: new Date('2024-01-10T00:00:00Z') },
+      _max: { createdAt: { year: 2024, month: 4, day: 1 } },
+    })
+    expect(
+      compareValues(
+        { year: 2024, month: 1, day: 2 },
+        { year: 2023, month: 5, day: 1 }
+      )
+    ).toBe(0)
+  })
+})
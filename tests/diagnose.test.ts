@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest'
+import { diagnose, formatDiagnosis, findMany } from '../src/index'
+import type { ObjectFilter } from '../src/index'
+
+type User = {
+  name: string
+  status: string
+  email?: string
+  profile: { age: number; country: string }
+  tags: string[]
+}
+
+const user: User = {
+  name: 'Dana',
+  status: 'active',
+  profile: { age: 16, country: 'DE' },
+  tags: ['beta'],
+}
+
+describe('diagnose', () => {
+  it('reports the first failing leaf', () => {
+    const result = diagnose(user, {
+      status: 'active',
+      'profile.age': { $gte: 18 },
+      tags: { $contains: 'vip' },
+    })
+
+    expect(result.matched).toBe(false)
+    expect(result.failure).toEqual({
+      type: 'operator',
+      path: 'profile.age',
+      operator: '$gte',
+      value: 16,
+      expected: 18,
+      matched: false,
+    })
+    expect(result.reason).toBe('profile.age is 16, expected $gte 18')
+    // Every condition is evaluated
+    expect(result.tree.children?.map((node) => node.matched)).toEqual([
+      true,
+      false,
+      false,
+    ])
+  })
+
+  it('describes logical nodes', () => {
+    const result = diagnose(user, {
+      $or: [{ status: 'invited' }, { profile: { country: 'FR' } }],
+    } as ObjectFilter<User>)
+    expect(result.tree.children?.[0]).toMatchObject({
+      type: 'or',
+      matched: false,
+      children: [
+        { type: 'field', path: 'status', value: 'active', matched: false },
+        {
+          type: 'field',
+          path: 'profile',
+          matched: false,
+          children: [
+            {
+              type: 'field',
+              path: 'profile.country',
+              value: 'DE',
+              matched: false,
+            },
+          ],
+        },
+      ],
+    })
+    expect(result.reason).toBe('status is "active", expected "invited"')
+
+    expect(diagnose(user, { $not: { name: 'Dana' } }).reason).toBe(
+      '$not: the negated condition matched'
+    )
+    expect(
+      diagnose(user, { $nor: [{ status: 'banned' }, { tags: { $size: 1 } }] })
+        .reason
+    ).toBe('$nor: condition 2 matched')
+  })
+
+  it('reports missing fields', () => {
+    const result = diagnose(user, { email: { $exists: true } })
+    expect(result.reason).toBe('email does not exist')
+  })
+
+  it('agrees with findMany', () => {
+    const filters: ObjectFilter<User>[] = [
+      { status: 'active' },
+      { 'profile.age': { $lt: 18 }, tags: { $all: ['beta'] } },
+      { $and: [{ name: { $startsWith: 'd' } }, { email: { $exists: false } }] },
+      { profile: { age: 16, country: 'DE' } },
+      { profile: { country: { $in: ['AT', 'CH'] } } },
+    ] as ObjectFilter<User>[]
+    for (const filter of filters) {
+      expect(diagnose(user, filter).matched).toBe(
+        findMany([user], { where: filter }).length === 1
+      )
+    }
+  })
+
+  it('formats the tree', () => {
+    const result = diagnose(user, {
+      status: 'active',
+      'profile.age': { $gte: 18 },
+    })
+    expect(formatDiagnosis(result)).toBe(
+      [
+        '✗ $and',
+        '  ✓ status: "active"',
+        '    ✓ $eq "active"',
+        '  ✗ profile.age: 16',
+        '    ✗ $gte 18',
+      ].join('\n')
+    )
+  })
+})
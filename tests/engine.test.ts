@@ -0,0 +1,266 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createEngine,
+  diagnose,
+  explain,
+  findMany,
+  InvalidOperandError,
+  UnknownOperatorError,
+} from '../src/index'
+import type { ObjectFilter, QueryPlugin } from '../src/index'
+
+declare module '../src/index' {
+  interface CustomOperators<T> {
+    $semver?: T extends string ? string : never
+    $withinRadius?: T extends { lat: number; lng: number }
+      ? { lat: number; lng: number; km: number }
+      : never
+  }
+  interface CustomLogicalOperators<T> {
+    $hasPermission?: T extends { roles: string[] } ? string : never
+  }
+}
+
+type Package = {
+  name: string
+  version: string
+  location: { lat: number; lng: number }
+  roles: string[]
+}
+
+const packages: Package[] = [
+  {
+    name: 'core',
+    version: '2.4.0',
+    location: { lat: 52.52, lng: 13.4 },
+    roles: ['admin'],
+  },
+  {
+    name: 'cli',
+    version: '1.9.3',
+    location: { lat: 48.14, lng: 11.58 },
+    roles: ['editor'],
+  },
+  {
+    name: 'docs',
+    version: '2.0.1',
+    location: { lat: 52.4, lng: 13.05 },
+    roles: [],
+  },
+]
+
+const permissions: Record<string, string[]> = {
+  admin: ['read', 'write'],
+  editor: ['read'],
+}
+
+/** Matches `^major.x` ranges only, enough for testing */
+const semver: QueryPlugin = {
+  name: 'semver',
+  operators: {
+    $semver: {
+      evaluate: (value, range) =>
+        typeof value === 'string' &&
+        typeof range === 'string' &&
+        value.split('.')[0] === range.replace('^', '').split('.')[0],
+      validate: (range) =>
+        typeof range === 'string' && /^\^\d+/.test(range)
+          ? undefined
+          : 'a caret range',
+    },
+  },
+}
+
+const geo: QueryPlugin = {
+  name: 'geo',
+  operators: {
+    $withinRadius: {
+      evaluate: (value, operand) => {
+        const point = value as { lat: number; lng: number }
+        const { lat, lng, km } = operand as {
+          lat: number
+          lng: number
+          km: number
+        }
+        return Math.hypot(point.lat - lat, point.lng - lng) * 111 <= km
+      },
+    },
+  },
+}
+
+const access: QueryPlugin = {
+  name: 'access',
+  logicalOperators: {
+    $hasPermission: {
+      evaluate: (obj, permission) =>
+        (obj.roles as string[]).some((role) =>
+          permissions[role]?.includes(permission as string)
+        ),
+    },
+  },
+}
+
+describe('createEngine', () => {
+  const engine = createEngine({ plugins: [semver, geo, access] })
+
+  it('evaluates plugin field operators', () => {
+    expect(
+      engine
+        .findMany(packages, { where: { version: { $semver: '^2' } } })
+        .map((p) => p.name)
+    ).toEqual(['core', 'docs'])
+    expect(
+      engine.findFirst(packages, {
+        where: {
+          location: { $withinRadius: { lat: 52.5, lng: 13.4, km: 10 } },
+        },
+      })?.name
+    ).toBe('core')
+  })
+
+  it('evaluates plugin logical operators', () => {
+    expect(
+      engine
+        .findMany(packages, { where: { $hasPermission: 'read' } })
+        .map((p) => p.name)
+    ).toEqual(['core', 'cli'])
+    expect(
+      engine.findMany(packages, {
+        where: { $or: [{ $hasPermission: 'write' }, { name: 'docs' }] },
+      })
+    ).toHaveLength(2)
+  })
+
+  it('passes a nested matcher to logical operators', () => {
+    const any = createEngine({
+      plugins: [
+        {
+          name: 'any',
+          logicalOperators: {
+            $any: {
+              evaluate: (_obj, filters, matches) =>
+                (filters as unknown[]).some(matches),
+            },
+          },
+        },
+      ],
+    })
+    const where = {
+      $any: [{ name: 'cli' }, { version: { $startsWith: '2.0' } }],
+    } as unknown as ObjectFilter<Package>
+    expect(any.findMany(packages, { where }).map((p) => p.name)).toEqual([
+      'cli',
+      'docs',
+    ])
+  })
+
+  it('keeps operators scoped to the engine', () => {
+    const where = { version: { $semver: '^2' } }
+    // Unknown operators are ignored by the top-level functions
+    expect(findMany(packages, { where })).toHaveLength(3)
+    expect(findMany(packages, { where }, engine)).toHaveLength(2)
+    expect(createEngine().findMany(packages, { where })).toHaveLength(3)
+  })
+
+  it('supports compiled queries, paging, grouping and aggregation', () => {
+    const compiled = engine.compileQuery<Package>({
+      where: { version: { $semver: '^2' } },
+      orderBy: { name: 'desc' },
+    })
+    expect(engine.findMany(packages, compiled).map((p) => p.name)).toEqual([
+      'docs',
+      'core',
+    ])
+    expect(
+      engine.findPage(packages, { where: { $hasPermission: 'read' }, take: 1 })
+        .hasNextPage
+    ).toBe(true)
+    expect(
+      engine.groupBy(packages, 'name', {
+        where: { version: { $semver: '^1' } },
+      })
+    ).toHaveLength(1)
+    expect(
+      engine.aggregate(packages, {
+        where: { $hasPermission: 'write' },
+        _count: true,
+      })._count
+    ).toBe(1)
+  })
+
+  it('validates plugin operands in strict mode', () => {
+    expect(() =>
+      engine.findMany(packages, {
+        where: { version: { $semver: '2.x' } },
+        strict: true,
+      })
+    ).toThrow(InvalidOperandError)
+    expect(() =>
+      engine.validateQuery<Package>({ where: { $hasPermission: 'read' } })
+    ).not.toThrow()
+    expect(() =>
+      findMany(packages, {
+        where: { version: { $semver: '^2' } },
+        strict: true,
+      })
+    ).toThrow(UnknownOperatorError)
+  })
+
+  it('reports plugin operators in explain and diagnose', () => {
+    const where = {
+      $hasPermission: 'write',
+      version: { $semver: '^2' },
+    } as ObjectFilter<Package>
+    const plan = explain(packages, { where }, engine)
+    expect(plan.filter.children?.[0]).toMatchObject({
+      type: 'operator',
+      operator: '$hasPermission',
+      condition: 'write',
+      matches: 1,
+    })
+    expect(plan.matched).toBe(1)
+
+    expect(engine.diagnose(packages[1], where).reason).toBe(
+      '$hasPermission "write" did not match'
+    )
+    expect(diagnose(packages[2], where, engine).reason).toBe(
+      '$hasPermission "write" did not match'
+    )
+    expect(
+      engine.diagnose(packages[0], { version: { $semver: '^1' } }).reason
+    ).toBe('version is "2.4.0", expected $semver "^1"')
+  })
+
+  it('rejects conflicting operator names', () => {
+    expect(() => createEngine({ plugins: [semver, semver] })).toThrow(
+      'Operator "$semver" of plugin "semver" is already registered by plugin "semver"'
+    )
+    expect(() =>
+      createEngine({
+        plugins: [{ name: 'eq', operators: { $eq: { evaluate: () => true } } }],
+      })
+    ).toThrow('is a built-in operator')
+    expect(() =>
+      createEngine({
+        plugins: [
+          { name: 'bad', operators: { near: { evaluate: () => true } } },
+        ],
+      })
+    ).toThrow('must start with "$"')
+  })
+
+  it('extends without changing the original engine', () => {
+    const base = createEngine({ plugins: [semver] })
+    const extended = base.extend(access)
+    expect(extended.plugins.map((plugin) => plugin.name)).toEqual([
+      'semver',
+      'access',
+    ])
+    expect(base.logicalOperators.has('$hasPermission')).toBe(false)
+    expect(
+      extended.findMany(packages, {
+        where: { $hasPermission: 'write', version: { $semver: '^2' } },
+      })
+    ).toHaveLength(1)
+  })
+})
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest'
+import { compileQuery, createCollection, explain } from '../src/index'
+
+type Product = {
+  id: number
+  category: string
+  price: number
+  stock: number
+}
+
+const products: Product[] = [
+  { id: 1, category: 'books', price: 8, stock: 3 },
+  { id: 2, category: 'books', price: 25, stock: 0 },
+  { id: 3, category: 'games', price: 5, stock: 10 },
+  { id: 4, category: 'music', price: 40, stock: 1 },
+  { id: 5, category: 'games', price: 60, stock: 0 },
+]
+
+describe('explain', () => {
+  it('reports the normalized filter tree with statistics', () => {
+    const plan = explain(products, {
+      where: {
+        $or: [{ category: 'books' }, { price: { $lt: 10 } }],
+        stock: { $gt: 0 },
+      },
+    })
+
+    expect(plan).toMatchObject({
+      total: 5,
+      scanned: 5,
+      matched: 2,
+      returned: 2,
+      indexes: [],
+    })
+    expect(plan.fastPath).toBeUndefined()
+
+    const [or, stock] = plan.filter.children ?? []
+    expect(plan.filter).toMatchObject({
+      type: 'and',
+      evaluations: 5,
+      matches: 2,
+      selectivity: 0.4,
+    })
+    expect(or).toMatchObject({
+      type: 'or',
+      evaluations: 5,
+      matches: 3,
+      shortCircuits: 2,
+    })
+    expect(or.children).toMatchObject([
+      { type: 'field', path: 'category', evaluations: 5, matches: 2 },
+      { type: 'field', path: 'price', evaluations: 3, matches: 1 },
+    ])
+    // Objects failing the $or never reach the stock condition
+    expect(plan.filter.shortCircuits).toBe(2)
+    expect(stock).toMatchObject({
+      type: 'field',
+      path: 'stock',
+      condition: { $gt: 0 },
+      evaluations: 3,
+      matches: 2,
+    })
+  })
+
+  it('normalizes arrays of filters, $not and $nor', () => {
+    const plan = explain(products, {
+      where: [
+        { $not: { category: 'music' } },
+        { $nor: [{ stock: 0 }, { price: { $gt: 50 } }] },
+      ],
+      take: 1,
+    })
+
+    expect(plan.filter.children?.map((node) => node.type)).toEqual([
+      'not',
+      'nor',
+    ])
+    expect(plan.filter.children?.[0].children?.[0]).toMatchObject({
+      path: 'category',
+      evaluations: 5,
+      matches: 1,
+    })
+    expect(plan.matched).toBe(2)
+    expect(plan.returned).toBe(1)
+  })
+
+  it('reports fast paths', () => {
+    expect(explain(products, { where: { category: 'games' } }).fastPath).toBe(
+      'primitive-equality'
+    )
+    expect(
+      explain(
+        products,
+        compileQuery<Product>({ where: { price: { $gte: 10 } } })
+      ).fastPath
+    ).toBe('compiled')
+  })
+
+  it('reports which collection indexes were used', () => {
+    const collection = createCollection(products, {
+      indexes: { category: 'hash', price: 'sorted', stock: 'hash' },
+    })
+
+    const plan = explain(collection, {
+      where: { category: 'games', price: { $gte: 10 } },
+    })
+    expect(plan.indexes).toEqual([
+      { path: 'category', type: 'hash', used: true },
+      { path: 'price', type: 'sorted', used: true },
+      { path: 'stock', type: 'hash', used: false },
+    ])
+    expect(plan).toMatchObject({ total: 5, scanned: 1, matched: 1 })
+
+    const unindexed = explain(collection, {
+      where: { $or: [{ category: 'books' }, { id: 4 }] },
+    })
+    expect(unindexed.indexes.every((index) => !index.used)).toBe(true)
+    expect(unindexed.scanned).toBe(5)
+  })
+})
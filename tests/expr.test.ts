@@ -0,0 +1,220 @@
+import { describe, it, expect } from 'vitest'
+import {
+  compileQuery,
+  createCollection,
+  diagnose,
+  explain,
+  findMany,
+  validateQuery,
+  InvalidOperandError,
+  InvalidPathError,
+  UnknownOperatorError,
+} from '../src/index'
+import type { ObjectFilter, ObjectQuery } from '../src/index'
+
+type Product = {
+  name: string
+  stock: number
+  price: number
+  pricing: { sale: { price: number; originalPrice: number } }
+  createdAt: Date
+  updatedAt: Date
+}
+
+const day = 24 * 60 * 60 * 1000
+
+const products: Product[] = [
+  {
+    name: 'lamp',
+    stock: 10,
+    price: 40,
+    pricing: { sale: { price: 30, originalPrice: 40 } },
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  },
+  {
+    name: 'desk',
+    stock: 5,
+    price: 300,
+    pricing: { sale: { price: 300, originalPrice: 300 } },
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-03-01'),
+  },
+  {
+    name: '$chair',
+    stock: 0,
+    price: 120,
+    pricing: { sale: { price: 90, originalPrice: 120 } },
+    createdAt: new Date('2024-02-01'),
+    updatedAt: new Date('2024-02-01T12:00:00Z'),
+  },
+]
+
+const names = (items: Product[]) => items.map((item) => item.name)
+
+describe('$expr', () => {
+  it('compares fields of the same object', () => {
+    expect(
+      names(
+        findMany(products, {
+          where: {
+            $expr: {
+              $lt: ['$pricing.sale.price', '$pricing.sale.originalPrice'],
+            },
+          },
+        })
+      )
+    ).toEqual(['lamp', '$chair'])
+    expect(
+      names(
+        findMany(products, {
+          where: { $expr: { $gt: ['$updatedAt', '$createdAt'] } },
+        })
+      )
+    ).toEqual(['desk', '$chair'])
+    expect(
+      names(
+        findMany(products, {
+          where: { $expr: { $eq: ['$price', '$pricing.sale.originalPrice'] } },
+        })
+      )
+    ).toEqual(['lamp', 'desk', '$chair'])
+  })
+
+  it('supports arithmetic', () => {
+    expect(
+      names(
+        findMany(products, {
+          where: {
+            $expr: { $gte: [{ $multiply: ['$stock', '$price'] }, 1000] },
+          },
+        })
+      )
+    ).toEqual(['desk'])
+    expect(
+      names(
+        findMany(products, {
+          where: {
+            $expr: {
+              $lte: [
+                { $divide: ['$pricing.sale.price', '$price'] },
+                { $add: [0.5, 0.25] },
+              ],
+            },
+          },
+        })
+      )
+    ).toEqual(['lamp', '$chair'])
+    expect(
+      names(
+        findMany(products, {
+          where: {
+            $expr: { $gt: [{ $subtract: ['$updatedAt', '$createdAt'] }, day] },
+          },
+        })
+      )
+    ).toEqual(['desk'])
+    expect(
+      names(
+        findMany(products, {
+          where: {
+            $expr: { $lt: [{ $add: ['$createdAt', 10 * day] }, '$updatedAt'] },
+          },
+        })
+      )
+    ).toEqual(['desk'])
+  })
+
+  it('treats invalid arithmetic as null', () => {
+    const where = [
+      { $expr: { $gt: [{ $divide: ['$price', '$stock'] }, 0] } },
+      { $expr: { $gt: [{ $add: ['$name', 1] }, 0] } },
+    ] as ObjectFilter<Product>[]
+    expect(names(findMany(products, { where: where[0] }))).toEqual([
+      'lamp',
+      'desk',
+    ])
+    expect(findMany(products, { where: where[1] })).toEqual([])
+  })
+
+  it('distinguishes literals from field references', () => {
+    expect(
+      names(
+        findMany(products, {
+          where: { $expr: { $eq: ['$name', { $literal: '$chair' }] } },
+        })
+      )
+    ).toEqual(['$chair'])
+    expect(
+      findMany(products, { where: { $expr: { $eq: ['$name', 'desk'] } } })
+    ).toHaveLength(1)
+  })
+
+  it('combines with other conditions', () => {
+    const query: ObjectQuery<Product, never, never> = {
+      where: {
+        stock: { $gt: 0 },
+        $or: [
+          { $expr: { $lt: ['$pricing.sale.price', '$price'] } },
+          { name: 'desk' },
+        ],
+      },
+    }
+    expect(names(findMany(products, query))).toEqual(['lamp', 'desk'])
+    expect(names(findMany(products, compileQuery(query)))).toEqual([
+      'lamp',
+      'desk',
+    ])
+    const collection = createCollection(products, {
+      indexes: { stock: 'sorted' },
+    })
+    expect(names(findMany(collection, query))).toEqual(['lamp', 'desk'])
+  })
+
+  it('is reported by explain and diagnose', () => {
+    const where: ObjectFilter<Product> = {
+      $expr: { $gt: ['$updatedAt', '$createdAt'] },
+      stock: { $gt: 0 },
+    }
+    expect(explain(products, { where }).filter.children?.[0]).toMatchObject({
+      type: 'operator',
+      operator: '$expr',
+      evaluations: 3,
+      matches: 2,
+    })
+    expect(diagnose(products[0], where).reason).toBe(
+      '$expr {"$gt":["$updatedAt","$createdAt"]} did not match'
+    )
+  })
+
+  it('is validated in strict mode', () => {
+    expect(() =>
+      validateQuery<Product>({
+        where: { $expr: { $lt: [{ $add: ['$price', 1] }, '$stock'] } },
+      })
+    ).not.toThrow()
+    expect(() =>
+      validateQuery({
+        where: { $expr: { $lt: ['$price', { $pow: ['$stock', 2] }] } },
+      } as unknown as ObjectQuery<Product>)
+    ).toThrow(UnknownOperatorError)
+    expect(() =>
+      findMany(products, {
+        where: { $expr: { $lt: ['$price'] } },
+        strict: true,
+      } as unknown as ObjectQuery<Product>)
+    ).toThrow(
+      'Invalid operand for $lt: expected an array of 2 expressions at where.$expr.$lt'
+    )
+    expect(() =>
+      validateQuery({
+        where: { $expr: { $add: [1] } },
+      } as unknown as ObjectQuery<Product>)
+    ).toThrow(InvalidOperandError)
+    expect(() =>
+      validateQuery({
+        where: { $expr: { $eq: ['$pricing..price', 1] } },
+      } as unknown as ObjectQuery<Product>)
+    ).toThrow(InvalidPathError)
+  })
+})
@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest'
+import {
+  compileQuery,
+  findMany,
+  fuzzyScore,
+  validateQuery,
+  InvalidOperandError,
+} from '../src/index'
+import type { ObjectFilter, ObjectQuery } from '../src/index'
+import { substringDistance } from '../src/operators/fuzzy'
+import { findBoth } from './helpers'
+
+type Product = { name: string; tags: string[] }
+
+const products: Product[] = [
+  { name: 'Apple MacBook Pro', tags: ['laptop', 'apple'] },
+  { name: 'MacBook Air', tags: ['laptop'] },
+  { name: 'Mac mini', tags: ['desktop'] },
+  { name: 'Magic Keyboard', tags: ['accessory', 'keyboard'] },
+]
+
+const names = (items: Product[]) => items.map((item) => item.name)
+
+const run = (where: ObjectFilter<Product>) =>
+  findBoth(products, { where }, 'name')
+
+describe('$fuzzy', () => {
+  it('computes the distance to the closest substring', () => {
+    expect(substringDistance('macbok', 'apple macbook pro')).toBe(1)
+    expect(substringDistance('book', 'macbook')).toBe(0)
+    expect(substringDistance('kitten', 'sitting')).toBe(2)
+    expect(substringDistance('', 'anything')).toBe(0)
+    expect(substringDistance('abc', '')).toBe(3)
+  })
+
+  it('matches strings with typos', () => {
+    expect(
+      run({ name: { $fuzzy: { value: 'macbok', maxDistance: 2 } } })
+    ).toEqual(['Apple MacBook Pro', 'MacBook Air'])
+    expect(run({ name: { $fuzzy: 'keybaord' } })).toEqual(['Magic Keyboard'])
+    expect(
+      run({ name: { $fuzzy: { value: 'macbok', maxDistance: 0 } } })
+    ).toEqual([])
+    // Short terms need an exact match by default
+    expect(run({ name: { $fuzzy: 'mc' } })).toEqual([])
+  })
+
+  it('matches string arrays', () => {
+    expect(run({ tags: { $fuzzy: 'labtop' } })).toEqual([
+      'Apple MacBook Pro',
+      'MacBook Air',
+    ])
+    expect(run({ tags: { $fuzzy: { value: 'acessory' } } })).toEqual([
+      'Magic Keyboard',
+    ])
+  })
+
+  it('applies a minimum similarity', () => {
+    expect(
+      run({
+        name: {
+          $fuzzy: { value: 'macbok', maxDistance: 3, minSimilarity: 0.9 },
+        },
+      })
+    ).toEqual([])
+    expect(
+      run({
+        name: {
+          $fuzzy: { value: 'mac mimi', maxDistance: 3, minSimilarity: 0.8 },
+        },
+      })
+    ).toEqual(['Mac mini'])
+  })
+
+  it('respects $caseSensitive', () => {
+    expect(run({ name: { $fuzzy: 'MACBOOK', $caseSensitive: true } })).toEqual(
+      []
+    )
+  })
+
+  it('scores closeness to order results', () => {
+    expect(fuzzyScore('MacBook Air', 'macbook')).toBe(1)
+    expect(fuzzyScore('Apple MacBook Pro', 'macbok')).toBeCloseTo(5 / 6)
+    expect(fuzzyScore(['desktop', 'laptop'], 'labtop')).toBeCloseTo(5 / 6)
+    expect(fuzzyScore(42, 'macbook')).toBe(0)
+  })
+
+  it('sorts by $fuzzyScore', () => {
+    const query: ObjectQuery<Product, never, never> = {
+      where: { name: { $fuzzy: { value: 'macbook air', maxDistance: 6 } } },
+      orderBy: { $fuzzyScore: 'desc' },
+    }
+    const ranked = names(findMany(products, query))
+    expect(ranked).toEqual(['MacBook Air', 'Apple MacBook Pro', 'Mac mini'])
+    expect(names(findMany(products, compileQuery(query)))).toEqual(ranked)
+  })
+
+  it('scores under the modifiers of the condition', () => {
+    expect(fuzzyScore('MacBook', 'macbook', { $caseSensitive: true })).toBe(
+      5 / 7
+    )
+    expect(fuzzyScore('Crème brûlée', 'creme brulee')).toBeLessThan(1)
+    expect(
+      fuzzyScore('Crème brûlée', 'creme brulee', {
+        $collation: { locale: 'fr' },
+      })
+    ).toBe(1)
+
+    const desserts = [{ name: 'Crema brulee' }, { name: 'Crème brûlée' }]
+    expect(
+      findMany(desserts, {
+        where: {
+          name: { $fuzzy: 'creme brulee', $collation: { locale: 'fr' } },
+        },
+        orderBy: { $fuzzyScore: 'desc' },
+      }).map((dessert) => dessert.name)
+    ).toEqual(['Crème brûlée', 'Crema brulee'])
+  })
+
+  it('needs an exact match for terms of up to 3 characters by default', () => {
+    const words = ['Hat', 'Boat', 'act', 'Cat'].map((name) => ({ name }))
+    expect(
+      findMany(words, { where: { name: { $fuzzy: 'cat' } } }).map(
+        (word) => word.name
+      )
+    ).toEqual(['Cat'])
+    expect(
+      findMany(words, {
+        where: { name: { $fuzzy: { value: 'cat', maxDistance: 1 } } },
+      }).map((word) => word.name)
+    ).toEqual(['Hat', 'Boat', 'act', 'Cat'])
+  })
+
+  it('validates operands', () => {
+    expect(() =>
+      validateQuery<Product>({
+        where: { name: { $fuzzy: { value: 'x', maxDistance: 1 } } },
+      })
+    ).not.toThrow()
+    expect(() =>
+      validateQuery({
+        where: { name: { $fuzzy: { value: 'x', maxDistance: -1 } } },
+      } as unknown as ObjectQuery<Product>)
+    ).toThrow(InvalidOperandError)
+    expect(() =>
+      validateQuery({
+        where: { name: { $fuzzy: { maxDistance: 1 } } },
+      } as unknown as ObjectQuery<Product>)
+    ).toThrow(
+      'Invalid operand for $fuzzy: expected a search term or { value, maxDistance?, minSimilarity? } at where.name.$fuzzy'
+    )
+  })
+})
@@ -1,5 +1,5 @@
-import { describe, it, expect } from 'vitest'
-import { groupBy } from '../src/index'
+import { describe, it, expect, expectTypeOf } from 'vitest'
+import { groupBy, QueryError } from '../src/index'
 
 describe('groupBy', () => {
   it('groups by simple field', () => {
@@ -12,12 +12,14 @@ describe('groupBy', () => {
     expect(groups).toEqual([
       {
         name: 'a',
+        key: 'a',
         items: [
           { cat: 'a', v: 1 },
           { cat: 'a', v: 3 },
         ],
+        count: 2,
       },
-      { name: 'b', items: [{ cat: 'b', v: 2 }] },
+      { name: 'b', key: 'b', items: [{ cat: 'b', v: 2 }], count: 1 },
     ])
   })
 
@@ -29,8 +31,8 @@ describe('groupBy', () => {
     ]
     const groups = groupBy(data, 'cat', { where: { v: { $gt: 1 } } })
     expect(groups).toEqual([
-      { name: 'y', items: [{ cat: 'y', v: 2 }] },
-      { name: 'x', items: [{ cat: 'x', v: 3 }] },
+      { name: 'y', key: 'y', items: [{ cat: 'y', v: 2 }], count: 1 },
+      { name: 'x', key: 'x', items: [{ cat: 'x', v: 3 }], count: 1 },
     ])
   })
 
@@ -38,8 +40,258 @@ describe('groupBy', () => {
     const data = [{ a: 1 }, {} as Record<string, unknown>]
     const groups = groupBy(data, 'a')
     expect(groups).toEqual([
-      { name: '1', items: [{ a: 1 }] },
-      { name: 'undefined', items: [{}] },
+      { name: '1', key: 1, items: [{ a: 1 }], count: 1 },
+      { name: 'undefined', key: undefined, items: [{}], count: 1 },
     ])
   })
+
+  it('keeps first-seen order for numeric-looking keys', () => {
+    const data = [{ k: 'b' }, { k: '2' }, { k: 'a' }, { k: '1' }]
+    expect(groupBy(data, 'k').map((g) => g.name)).toEqual(['b', '2', 'a', '1'])
+  })
+
+  describe('aggregates', () => {
+    const orders = [
+      { status: 'paid', total: 100, customer: 'ann' },
+      { status: 'open', total: 30, customer: 'bob' },
+      { status: 'paid', total: 50, customer: 'cid' },
+      { status: 'void', total: 5, customer: 'dan' },
+      { status: 'open', total: 40, customer: 'eve' },
+    ]
+
+    it('computes per-group aggregates', () => {
+      const groups = groupBy(orders, 'status', {
+        _sum: { total: true },
+        _avg: { total: true },
+        _min: { customer: true },
+      })
+      expect(groups[0]).toMatchObject({
+        name: 'paid',
+        count: 2,
+        _sum: { total: 150 },
+        _avg: { total: 75 },
+        _min: { customer: 'ann' },
+      })
+      expectTypeOf(groups[0]._sum.total).toEqualTypeOf<number | null>()
+    })
+
+    it('filters groups with having', () => {
+      const groups = groupBy(orders, 'status', {
+        having: { _count: { $gte: 2 }, _sum: { total: { $lt: 100 } } },
+      })
+      expect(groups.map((g) => g.name)).toEqual(['open'])
+    })
+
+    it('sorts groups by aggregate value and key', () => {
+      const bySum = groupBy(orders, 'status', {
+        orderGroupsBy: { _sum: { total: 'asc' } },
+      })
+      expect(bySum.map((g) => g.name)).toEqual(['void', 'open', 'paid'])
+
+      const byCountThenKey = groupBy(orders, 'status', {
+        orderGroupsBy: { _count: 'desc', _key: 'desc' },
+      })
+      expect(byCountThenKey.map((g) => g.name)).toEqual([
+        'paid',
+        'open',
+        'void',
+      ])
+    })
+
+    it('sorts numeric keys by value', () => {
+      const data = [{ n: 10 }, { n: 9 }, { n: 100 }]
+      const groups = groupBy(data, 'n', { orderGroupsBy: { _key: 'asc' } })
+      expect(groups.map((g) => g.name)).toEqual(['9', '10', '100'])
+    })
+  })
+
+  describe('multiple keys', () => {
+    const stores = [
+      { region: 'EU', country: 'DE', city: 'Berlin', sales: 10 },
+      { region: 'EU', country: 'FR', city: 'Paris', sales: 20 },
+      { region: 'US', country: 'US', city: 'Austin', sales: 5 },
+      { region: 'EU', country: 'DE', city: 'Munich', sales: 15 },
+    ]
+
+    it('keeps typed keys apart', () => {
+      const data = [
+        { v: 1 },
+        { v: '1' },
+        { v: null },
+        {} as { v?: number | string | null },
+      ]
+      const groups = groupBy(data, 'v')
+      expect(groups.map((g) => g.key)).toEqual([1, '1', null, undefined])
+      expect(groups.map((g) => g.name)).toEqual(['1', '1', 'null', 'undefined'])
+    })
+
+    it('groups by composite keys', () => {
+      const groups = groupBy(stores, ['region', 'country'], {
+        _sum: { sales: true },
+      })
+      expect(groups.map((g) => [g.name, g.key, g.count, g._sum.sales])).toEqual(
+        [
+          ['EU / DE', ['EU', 'DE'], 2, 25],
+          ['EU / FR', ['EU', 'FR'], 1, 20],
+          ['US / US', ['US', 'US'], 1, 5],
+        ]
+      )
+      expectTypeOf(groups[0].key).toEqualTypeOf<[string, string]>()
+    })
+
+    it('groups into nested trees', () => {
+      const groups = groupBy(stores, ['region', 'country', 'city'], {
+        nested: true,
+        _sum: { sales: true },
+        orderGroupsBy: { _sum: { sales: 'desc' } },
+      })
+      expect(groups.map((g) => [g.key, g._sum.sales])).toEqual([
+        ['EU', 45],
+        ['US', 5],
+      ])
+      const eu = groups[0].groups ?? []
+      expect(eu.map((g) => [g.key, g.count])).toEqual([
+        ['DE', 2],
+        ['FR', 1],
+      ])
+      expect(eu[0].groups?.map((g) => g.key)).toEqual(['Munich', 'Berlin'])
+      expect(eu[0].groups?.[0].groups).toBeUndefined()
+      expectTypeOf(groups[0].key).toEqualTypeOf<string>()
+    })
+  })
+
+  describe('computed keys and buckets', () => {
+    const orders = [
+      {
+        id: 1,
+        name: 'Apple',
+        price: 12,
+        createdAt: new Date('2024-01-31T23:30:00Z'),
+      },
+      {
+        id: 2,
+        name: 'avocado',
+        price: 47,
+        createdAt: new Date('2024-01-15T10:00:00Z'),
+      },
+      {
+        id: 3,
+        name: 'Banana',
+        price: 3,
+        createdAt: new Date('2024-04-02T08:00:00Z'),
+      },
+      {
+        id: 4,
+        name: 'Cherry',
+        price: 120,
+        createdAt: new Date('2024-04-20T12:00:00Z'),
+      },
+    ]
+
+    it('groups by a key function', () => {
+      const groups = groupBy(orders, (order) => order.name[0].toUpperCase())
+      expect(groups.map((g) => [g.key, g.count])).toEqual([
+        ['A', 2],
+        ['B', 1],
+        ['C', 1],
+      ])
+      expectTypeOf(groups[0].key).toEqualTypeOf<string>()
+    })
+
+    it('truncates dates in a time zone', () => {
+      const utc = groupBy(orders, { field: 'createdAt', date: 'month' })
+      expect(utc.map((g) => g.name)).toEqual(['2024-01', '2024-04'])
+
+      const berlin = groupBy(orders, {
+        field: 'createdAt',
+        date: 'month',
+        timeZone: 'Europe/Berlin',
+      })
+      expect(berlin.map((g) => [g.name, g.count])).toEqual([
+        ['2024-02', 1],
+        ['2024-01', 1],
+        ['2024-04', 2],
+      ])
+      expect(berlin[0].key).toEqual(new Date('2024-01-31T23:00:00Z'))
+      expectTypeOf(berlin[0].key).toEqualTypeOf<Date | null>()
+    })
+
+    it('buckets weeks and quarters', () => {
+      const weeks = groupBy(orders, { field: 'createdAt', date: 'week' })
+      expect(weeks.map((g) => g.name)).toEqual([
+        '2024-01-29',
+        '2024-01-15',
+        '2024-04-01',
+        '2024-04-15',
+      ])
+      const quarters = groupBy(orders, { field: 'createdAt', date: 'quarter' })
+      expect(quarters.map((g) => g.name)).toEqual(['2024-Q1', '2024-Q2'])
+    })
+
+    it('fills empty date buckets', () => {
+      const groups = groupBy(orders, {
+        field: 'createdAt',
+        date: 'month',
+        fillEmpty: true,
+      })
+      expect(groups.map((g) => [g.name, g.count])).toEqual([
+        ['2024-01', 2],
+        ['2024-02', 0],
+        ['2024-03', 0],
+        ['2024-04', 2],
+      ])
+    })
+
+    it('buckets numbers by fixed width', () => {
+      const groups = groupBy(
+        orders,
+        { field: 'price', width: 50, fillEmpty: true },
+        { _count: true }
+      )
+      expect(groups.map((g) => [g.name, g.key, g._count])).toEqual([
+        ['[0, 50)', 0, 3],
+        ['[50, 100)', 50, 0],
+        ['[100, 150)', 100, 1],
+      ])
+    })
+
+    it('buckets numbers by fractional widths', () => {
+      const ratings = [0.1, 0.2, 0.3, 0.7].map((rating) => ({ rating }))
+      const groups = groupBy(ratings, {
+        field: 'rating',
+        width: 0.1,
+        fillEmpty: true,
+      })
+      expect(groups.map((g) => [g.name, g.count])).toEqual([
+        ['[0.1, 0.2)', 1],
+        ['[0.2, 0.3)', 1],
+        ['[0.3, 0.4)', 1],
+        ['[0.4, 0.5)', 0],
+        ['[0.5, 0.6)', 0],
+        ['[0.6, 0.7)', 0],
+        ['[0.7, 0.8)', 1],
+      ])
+    })
+
+    it('rejects filling too many buckets', () => {
+      const prices = [{ price: 0 }, { price: 1e9 }]
+      expect(() =>
+        groupBy(prices, { field: 'price', width: 1, fillEmpty: true })
+      ).toThrow(QueryError)
+      expect(groupBy(prices, { field: 'price', width: 1 })).toHaveLength(2)
+    })
+
+    it('buckets numbers by explicit boundaries', () => {
+      const groups = groupBy(orders, {
+        field: 'price',
+        boundaries: [0, 10, 100],
+        fillEmpty: true,
+      })
+      expect(groups.map((g) => [g.name, g.key, g.count])).toEqual([
+        ['[0, 10)', 0, 1],
+        ['[10, 100)', 10, 2],
+        ['null', null, 1],
+      ])
+    })
+  })
 })
@@ -0,0 +1,23 @@
+import { expect } from 'vitest'
+import { createEngine } from '../src/index'
+import type { ObjectQuery, QueryEngine } from '../src/index'
+
+const defaultEngine = createEngine()
+
+/**
+ * Run a query both interpreted and compiled, expecting the same result,
+ * and return one field of each matched item
+ */
+export function findBoth<T extends object, K extends keyof T>(
+  items: T[],
+  query: ObjectQuery<T, never, never>,
+  key: K,
+  engine: QueryEngine = defaultEngine
+): T[K][] {
+  const pick = (found: T[]) => found.map((item) => item[key])
+  const interpreted = pick(engine.findMany(items, query))
+  expect(pick(engine.findMany(items, engine.compileQuery(query)))).toEqual(
+    interpreted
+  )
+  return interpreted
+}
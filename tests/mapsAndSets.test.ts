@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest'
+import { createCollection, createEngine, findMany } from '../src/index'
+import type { ObjectFilter } from '../src/index'
+import { isEqual } from '../src/guards'
+import { findBoth } from './helpers'
+
+type Product = {
+  id: number
+  tags: Set<string>
+  prices: Map<string, number>
+  stock: Map<number, { warehouse: string; count: number }>
+  checksum: Uint8Array
+}
+
+const products: Product[] = [
+  {
+    id: 1,
+    tags: new Set(['sale', 'new']),
+    prices: new Map([
+      ['eur', 10],
+      ['usd', 11],
+    ]),
+    stock: new Map([[7, { warehouse: 'north', count: 3 }]]),
+    checksum: new Uint8Array([1, 2, 3]),
+  },
+  {
+    id: 2,
+    tags: new Set(['clearance']),
+    prices: new Map([['eur', 25]]),
+    stock: new Map(),
+    checksum: new Uint8Array([1, 2, 4]),
+  },
+  {
+    id: 3,
+    tags: new Set(),
+    prices: new Map([
+      ['usd', 40],
+      ['eur', 35],
+    ]),
+    stock: new Map([[9, { warehouse: 'south', count: 0 }]]),
+    checksum: new Uint8Array([1, 2, 3]),
+  },
+]
+
+const ids = (items: Product[]) => items.map((item) => item.id)
+
+const engine = createEngine()
+
+const run = (where: ObjectFilter<Product>, context = engine) =>
+  findBoth(products, { where }, 'id', context)
+
+describe('isEqual with Maps, Sets and binary data', () => {
+  it('compares Maps by entries', () => {
+    expect(isEqual(new Map([['a', 1]]), new Map([['a', 1]]))).toBe(true)
+    expect(isEqual(new Map([['a', 1]]), new Map([['a', 2]]))).toBe(false)
+    expect(isEqual(new Map([['a', 1]]), new Map([['b', 1]]))).toBe(false)
+    expect(isEqual(new Map(), {})).toBe(false)
+    expect(
+      isEqual(new Map([['a', { deep: [1] }]]), new Map([['a', { deep: [1] }]]))
+    ).toBe(true)
+  })
+
+  it('compares Sets by values in any order', () => {
+    expect(isEqual(new Set([1, 2]), new Set([2, 1]))).toBe(true)
+    expect(isEqual(new Set([1, 2]), new Set([1, 3]))).toBe(false)
+    expect(isEqual(new Set([{ id: 1 }]), new Set([{ id: 1 }]))).toBe(true)
+    expect(isEqual(new Set([1]), [1])).toBe(false)
+  })
+
+  it('compares typed arrays and buffers by bytes', () => {
+    expect(isEqual(new Uint8Array([1, 2]), new Uint8Array([1, 2]))).toBe(true)
+    expect(isEqual(new Uint8Array([1, 2]), new Uint8Array([1, 3]))).toBe(false)
+    expect(isEqual(new Uint8Array([1, 2]), new Int8Array([1, 2]))).toBe(false)
+    expect(
+      isEqual(new Uint8Array([1, 2]).buffer, new Uint8Array([1, 2]).buffer)
+    ).toBe(true)
+    expect(isEqual(new Float64Array([0.5]), new Float64Array([0.5]))).toBe(true)
+  })
+})
+
+describe('queries on Maps, Sets and binary data', () => {
+  it('matches equal values', () => {
+    expect(run({ tags: new Set(['new', 'sale']) })).toEqual([1])
+    expect(run({ prices: { $eq: new Map([['eur', 25]]) } })).toEqual([2])
+    expect(run({ checksum: new Uint8Array([1, 2, 3]) })).toEqual([1, 3])
+    expect(run({ tags: { $ne: new Set() } })).toEqual([1, 2])
+    expect(run({ tags: { $in: [new Set(['clearance']), new Set()] } })).toEqual(
+      [2, 3]
+    )
+  })
+
+  it('reads Map entries along paths', () => {
+    expect(run({ 'prices.eur': { $lt: 30 } })).toEqual([1, 2])
+    expect(run({ 'prices.usd': { $exists: true } })).toEqual([1, 3])
+    expect(run({ 'stock.7.warehouse': 'north' })).toEqual([1])
+    expect(run({ 'stock.9.count': 0 })).toEqual([3])
+    expect(
+      ids(findMany(products, { orderBy: { 'prices.eur': 'desc' } }))
+    ).toEqual([3, 2, 1])
+  })
+
+  it('applies $contains, $all and $size to Sets', () => {
+    expect(run({ tags: { $contains: 'sale' } })).toEqual([1])
+    expect(run({ tags: { $contains: 'CLEAR' } })).toEqual([2])
+    expect(run({ tags: { $all: ['new', 'sale'] } })).toEqual([1])
+    expect(run({ tags: { $size: 0 } })).toEqual([3])
+  })
+
+  it('does not look up Sets in hash indexes', () => {
+    const collection = createCollection(products, {
+      indexes: { tags: 'hash' },
+    })
+    expect(
+      ids(findMany(collection, { where: { tags: new Set(['clearance']) } }))
+    ).toEqual([2])
+  })
+})
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createCollection,
+  createEngine,
+  findMany,
+  validateQuery,
+  InvalidOperandError,
+} from '../src/index'
+import type { ObjectFilter } from '../src/index'
+import { compareValues } from '../src/utils'
+import { isEqual } from '../src/guards'
+import { findBoth } from './helpers'
+
+type Account = {
+  id: number
+  flags: number
+  balance: bigint | number
+}
+
+const accounts: Account[] = [
+  { id: 1, flags: 0b0101, balance: BigInt('9007199254740993') },
+  { id: 2, flags: 0b0011, balance: BigInt(-20) },
+  { id: 3, flags: 0b1000, balance: 15 },
+  { id: 4, flags: -1, balance: BigInt(15) },
+  { id: 5, flags: 2.5, balance: NaN },
+]
+
+const ids = (items: Account[]) => items.map((item) => item.id)
+
+const engine = createEngine()
+
+const run = (where: ObjectFilter<Account>, context = engine) =>
+  findBoth(accounts, { where }, 'id', context)
+
+describe('$mod', () => {
+  it('matches remainders of numbers and bigints', () => {
+    expect(run({ flags: { $mod: [2, 1] } })).toEqual([1, 2])
+    expect(run({ flags: { $mod: [4, -1] } })).toEqual([4])
+    expect(run({ balance: { $mod: [5, 0] } })).toEqual([2, 3, 4])
+    expect(run({ balance: { $mod: [BigInt(2), BigInt(1)] } })).toEqual([
+      1, 3, 4,
+    ])
+  })
+})
+
+describe('bit operators', () => {
+  it('matches masks and bit positions', () => {
+    expect(run({ flags: { $bitsAllSet: 0b0101 } })).toEqual([1, 4])
+    expect(run({ flags: { $bitsAllSet: [0, 1] } })).toEqual([2, 4])
+    expect(run({ flags: { $bitsAnySet: [1, 3] } })).toEqual([2, 3, 4])
+    expect(run({ flags: { $bitsAllClear: 0b0001 } })).toEqual([3])
+  })
+
+  it("matches bits of bigints beyond 32 bits in two's complement", () => {
+    expect(run({ balance: { $bitsAllSet: [0, 53] } })).toEqual([1])
+    expect(run({ balance: { $bitsAnySet: BigInt(1) << BigInt(53) } })).toEqual([
+      1, 2,
+    ])
+  })
+})
+
+describe('bigint comparisons', () => {
+  it('compares bigints with bigints and numbers', () => {
+    expect(run({ balance: { $gt: 9007199254740992 } })).toEqual([1])
+    expect(run({ balance: { $gte: BigInt(15) } })).toEqual([1, 3, 4])
+    expect(run({ balance: { $lt: 0 } })).toEqual([2])
+    expect(run({ balance: { $between: [BigInt(0), 20] } })).toEqual([3, 4])
+  })
+
+  it('compares bigints and numbers by value for equality', () => {
+    expect(run({ balance: BigInt(15) })).toEqual([3, 4])
+    expect(run({ balance: 15 })).toEqual([3, 4])
+    expect(run({ balance: { $eq: 15 } })).toEqual([3, 4])
+    expect(run({ balance: { $ne: BigInt(15) } })).toEqual([1, 2, 5])
+    expect(run({ balance: { $in: [-20, BigInt(15)] } })).toEqual([2, 3, 4])
+    expect(run({ balance: { $nin: [BigInt(15)] } })).toEqual([1, 2, 5])
+    expect(run({ balance: 9007199254740992 })).toEqual([])
+    expect(isEqual(BigInt(15), 15)).toBe(true)
+    expect(isEqual({ n: 15 }, { n: BigInt(15) })).toBe(true)
+    expect(isEqual(BigInt(15), 15.5)).toBe(false)
+  })
+
+  it('looks up bigints and numbers in hash indexes by value', () => {
+    const collection = createCollection(accounts, {
+      indexes: { balance: 'hash' },
+    })
+    expect(
+      ids(engine.findMany(collection, { where: { balance: 15 } }))
+    ).toEqual([3, 4])
+    expect(
+      ids(
+        engine.findMany(collection, {
+          where: {
+            balance: { $in: [BigInt(-20), BigInt('9007199254740993')] },
+          },
+        })
+      )
+    ).toEqual([1, 2])
+  })
+
+  it('sorts bigints and numbers by value', () => {
+    expect(ids(findMany(accounts, { orderBy: { balance: 'asc' } }))).toEqual([
+      2, 3, 4, 1, 5,
+    ])
+    expect(compareValues(BigInt(2), 1.5)).toBeGreaterThan(0)
+    expect(compareValues(NaN, BigInt(0))).toBeGreaterThan(0)
+  })
+
+  it('narrows bigint ranges with sorted indexes', () => {
+    const collection = createCollection(accounts, {
+      indexes: { balance: 'sorted' },
+    })
+    const query = { where: { balance: { $gte: 15, $lte: BigInt(15) } } }
+    expect(ids(engine.findMany(collection, query))).toEqual([3, 4])
+    expect(engine.explain(collection, query).indexes).toContainEqual({
+      path: 'balance',
+      type: 'sorted',
+      used: true,
+    })
+  })
+})
+
+describe('numeric operands', () => {
+  it('validates operands', () => {
+    expect(() =>
+      validateQuery<Account>({
+        where: {
+          flags: { $mod: [3, 1], $bitsAnySet: [0, 2] },
+          balance: { $gt: BigInt(0), $bitsAllClear: BigInt(4) },
+        },
+      })
+    ).not.toThrow()
+    expect(() =>
+      validateQuery<Account>({ where: { flags: { $mod: [0, 1] } } })
+    ).toThrow(
+      'Invalid operand for $mod: expected a [divisor, remainder] pair of integers with a non-zero divisor at where.flags.$mod'
+    )
+    expect(() =>
+      validateQuery<Account>({ where: { flags: { $bitsAllSet: -1 } } })
+    ).toThrow(InvalidOperandError)
+    expect(() =>
+      validateQuery<Account>({ where: { flags: { $bitsAnySet: [1.5] } } })
+    ).toThrow(
+      'Invalid operand for $bitsAnySet: expected a non-negative integer mask or an array of bit positions at where.flags.$bitsAnySet'
+    )
+  })
+})
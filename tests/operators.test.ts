@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest'
-import { findMany } from '../src/index'
+import { compileQuery, findMany, validateQuery } from '../src/index'
+import type { ObjectFilter, ObjectQuery } from '../src/index'
 
 describe('Field Operators', () => {
   it('$ne filters out equal values', () => {
@@ -93,6 +94,92 @@ describe('Field Operators', () => {
     })
     expect(result).toEqual([{ tags: [{ id: 1 }, { id: 2 }] }])
   })
+
+  it('$elemMatch applies operators to primitive elements', () => {
+    type Student = { name: string; scores: number[]; dates: Date[] }
+    const students: Student[] = [
+      { name: 'a', scores: [70, 95], dates: [] },
+      { name: 'b', scores: [85], dates: [] },
+      { name: 'c', scores: [], dates: [new Date('2024-05-01')] },
+    ]
+    const query: ObjectQuery<Student, never, never> = {
+      where: { scores: { $elemMatch: { $gte: 80, $lt: 90 } } },
+    }
+    // Both bounds must hold for the same element
+    expect(findMany(students, query).map((s) => s.name)).toEqual(['b'])
+    expect(findMany(students, compileQuery(query)).map((s) => s.name)).toEqual([
+      'b',
+    ])
+    expect(
+      findMany(students, {
+        where: { dates: { $elemMatch: { $gt: new Date('2024-01-01') } } },
+      }).map((s) => s.name)
+    ).toEqual(['c'])
+  })
+
+  it('$elemMatch supports logical operators inside elements', () => {
+    type Order = {
+      id: number
+      items: { sku: string; qty: number; tags: string[] }[]
+    }
+    const orders: Order[] = [
+      {
+        id: 1,
+        items: [
+          { sku: 'A', qty: 1, tags: ['sale'] },
+          { sku: 'B', qty: 5, tags: [] },
+        ],
+      },
+      { id: 2, items: [{ sku: 'C', qty: 2, tags: ['new'] }] },
+    ]
+    const ids = (where: ObjectFilter<Order>) =>
+      findMany(orders, { where }).map((o) => o.id)
+
+    expect(
+      ids({
+        items: {
+          $elemMatch: {
+            $or: [{ qty: { $gte: 5 } }, { tags: { $contains: 'new' } }],
+          },
+        },
+      })
+    ).toEqual([1, 2])
+    expect(
+      ids({
+        items: {
+          $elemMatch: { sku: { $ne: 'A' }, $not: { tags: { $size: 0 } } },
+        },
+      })
+    ).toEqual([2])
+    expect(
+      ids({
+        items: { $elemMatch: { $nor: [{ sku: 'A' }, { sku: 'C' }] }, $size: 1 },
+      })
+    ).toEqual([])
+  })
+
+  it('$elemMatch operands are validated for both element kinds', () => {
+    expect(() =>
+      validateQuery({
+        where: { scores: { $elemMatch: { $gte: 80, $lt: 90 } } },
+      })
+    ).not.toThrow()
+    expect(() =>
+      validateQuery({
+        where: { items: { $elemMatch: { $or: [{ qty: 1 }] } } },
+      })
+    ).not.toThrow()
+    expect(() =>
+      validateQuery({
+        where: { scores: { $elemMatch: { $in: 80 } } },
+      })
+    ).toThrow('Invalid operand for $in')
+    expect(() =>
+      validateQuery({
+        where: { items: { $elemMatch: { $or: { qty: 1 } } } },
+      })
+    ).toThrow('Invalid operand for $or')
+  })
 })
 
 describe('Logical Operators', () => {
@@ -134,3 +221,80 @@ describe('Logical Operators', () => {
     expect(result).toEqual([{ v: 2 }])
   })
 })
+
+describe('Field-level Logical Operators', () => {
+  type Account = { email: string; age: number; logins: { at: Date }[] }
+  const accounts: Account[] = [
+    { email: 'ann@example.com', age: 17, logins: [] },
+    {
+      email: 'bob@test.com',
+      age: 34,
+      logins: [{ at: new Date('2024-01-05') }],
+    },
+    {
+      email: 'cy@example.com',
+      age: 70,
+      logins: [{ at: new Date('2023-06-01') }, { at: new Date('2024-03-01') }],
+    },
+  ]
+  const emails = (where: ObjectFilter<Account>) =>
+    findMany(accounts, { where }).map((a) => a.email)
+
+  it('$not negates the operators of one field', () => {
+    const where: ObjectFilter<Account> = {
+      email: { $not: { $endsWith: '@test.com' } },
+    }
+    expect(emails(where)).toEqual(['ann@example.com', 'cy@example.com'])
+    expect(
+      findMany(accounts, compileQuery({ where })).map((a) => a.email)
+    ).toEqual(['ann@example.com', 'cy@example.com'])
+    expect(emails({ age: { $not: 34 } })).toHaveLength(2)
+  })
+
+  it('$or and $and combine conditions on one field', () => {
+    const where: ObjectFilter<Account> = {
+      age: { $or: [{ $lt: 18 }, { $gte: 65 }] },
+    }
+    expect(emails(where)).toEqual(['ann@example.com', 'cy@example.com'])
+    expect(
+      findMany(accounts, compileQuery({ where })).map((a) => a.email)
+    ).toEqual(['ann@example.com', 'cy@example.com'])
+    expect(
+      emails({
+        email: {
+          $and: [{ $endsWith: '.com' }, { $not: { $startsWith: 'a' } }],
+        },
+        age: { $or: [34, { $gt: 60 }], $ne: 70 },
+      })
+    ).toEqual(['bob@test.com'])
+    expect(emails({ age: { $or: [] } })).toEqual([])
+  })
+
+  it('applies to values collected through arrays', () => {
+    const where = {
+      'logins.at': { $not: { $lt: new Date('2024-01-01') } },
+    } as ObjectFilter<Account>
+    // No login before 2024, including accounts without logins
+    expect(emails(where)).toEqual(['ann@example.com', 'bob@test.com'])
+  })
+
+  it('validates nested conditions', () => {
+    expect(() =>
+      validateQuery<Account>({
+        where: { age: { $not: { $gt: 5 }, $or: [{ $lt: 1 }, 3] } },
+      })
+    ).not.toThrow()
+    expect(() =>
+      validateQuery({
+        where: { age: { $or: { $lt: 1 } } },
+      } as unknown as ObjectQuery<Account>)
+    ).toThrow('Invalid operand for $or: expected an array at where.age.$or')
+    expect(() =>
+      validateQuery({
+        where: { age: { $not: { $in: 1 } } },
+      } as unknown as ObjectQuery<Account>)
+    ).toThrow(
+      'Invalid operand for $in: expected an array at where.age.$not.$in'
+    )
+  })
+})
@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest'
+import {
+  findMany,
+  findFirst,
+  findPage,
+  groupBy,
+  validateQuery,
+  QueryError,
+} from '../src/index'
+import type { ObjectQuery } from '../src/index'
+
+const rows = [
+  { id: 3, cat: 'a' },
+  { id: 1, cat: 'b' },
+  { id: 5, cat: 'a' },
+  { id: 2, cat: 'b' },
+  { id: 4, cat: 'a' },
+]
+
+describe('Pagination', () => {
+  it('applies skip and take after sorting', () => {
+    const result = findMany(rows, { orderBy: { id: 'asc' }, skip: 1, take: 2 })
+    expect(result.map((r) => r.id)).toEqual([2, 3])
+  })
+
+  it('seeks after the cursor item', () => {
+    const result = findMany(rows, {
+      orderBy: { id: 'asc' },
+      cursor: { id: 2 },
+      take: 2,
+    })
+    expect(result.map((r) => r.id)).toEqual([3, 4])
+  })
+
+  it('returns an empty page for an unknown cursor', () => {
+    expect(findMany(rows, { cursor: { id: 99 } })).toEqual([])
+  })
+
+  it('findFirst honours skip and cursor', () => {
+    expect(findFirst(rows, { skip: 2 })).toEqual({ id: 5, cat: 'a' })
+    expect(
+      findFirst(rows, { orderBy: { id: 'desc' }, cursor: { id: 4 } })
+    ).toEqual({ id: 3, cat: 'a' })
+  })
+
+  it('groupBy pages the objects before grouping', () => {
+    const groups = groupBy(rows, 'cat', { orderBy: { id: 'asc' }, take: 3 })
+    expect(groups.map((g) => g.items.map((i) => i.id))).toEqual([[1, 2], [3]])
+  })
+
+  it('findPage drives cursor-based paging', () => {
+    const first = findPage(rows, { orderBy: { id: 'asc' }, take: 2 })
+    expect(first.items.map((r) => r.id)).toEqual([1, 2])
+    expect(first.hasNextPage).toBe(true)
+    expect(first.hasPreviousPage).toBe(false)
+    expect(first.nextCursor).toEqual({ id: 2 })
+    expect(first.totalCount).toBe(5)
+
+    const last = findPage(rows, {
+      orderBy: { id: 'asc' },
+      cursor: { id: 4 },
+      take: 2,
+    })
+    expect(last.items.map((r) => r.id)).toEqual([5])
+    expect(last.hasNextPage).toBe(false)
+    expect(last.hasPreviousPage).toBe(true)
+    expect(last.nextCursor).toBeUndefined()
+  })
+
+  it('pages through duplicate sort keys with a tiebreaker', () => {
+    const items = [
+      { id: 1, cat: 'a' },
+      { id: 2, cat: 'a' },
+      { id: 3, cat: 'a' },
+      { id: 4, cat: 'b' },
+    ]
+    const query = { orderBy: { cat: 'asc', id: 'asc' }, take: 2 } as const
+    const first = findPage(items, query)
+    expect(first.items.map((r) => r.id)).toEqual([1, 2])
+    expect(first.nextCursor).toEqual({ cat: 'a', id: 2 })
+
+    const second = findPage(items, { ...query, cursor: first.nextCursor })
+    expect(second.items.map((r) => r.id)).toEqual([3, 4])
+    expect(second.hasNextPage).toBe(false)
+  })
+
+  it('breaks ties by cursor fields missing from orderBy', () => {
+    const items = [
+      { id: 3, cat: 'a' },
+      { id: 4, cat: 'b' },
+      { id: 1, cat: 'a' },
+      { id: 2, cat: 'a' },
+    ]
+    const page = findPage(items, {
+      orderBy: { cat: 'asc' },
+      cursor: { cat: 'a', id: 1 },
+      take: 1,
+    })
+    expect(page.items.map((r) => r.id)).toEqual([2])
+    expect(page.nextCursor).toEqual({ cat: 'a', id: 2 })
+  })
+
+  it('pages through equal sort values across page boundaries', () => {
+    const items = [
+      { id: 1, price: 1 },
+      { id: 2, price: 1 },
+      { id: 3, price: 1 },
+      { id: 4, price: 2 },
+    ]
+    const query = { orderBy: { price: 'asc' }, take: 1 } as const
+    const first = findPage(items, query)
+    expect(first.nextCursor).toEqual({ price: 1, $ties: 1 })
+
+    const seen = first.items.map((item) => item.id)
+    let cursor = first.nextCursor
+    while (cursor) {
+      const page = findPage(items, { ...query, cursor })
+      seen.push(...page.items.map((item) => item.id))
+      cursor = page.nextCursor
+    }
+    expect(seen).toEqual([1, 2, 3, 4])
+
+    const second = findPage(items, { ...query, cursor: first.nextCursor })
+    expect(second.nextCursor).toEqual({ price: 1, $ties: 2 })
+    const third = findPage(items, { ...query, cursor: second.nextCursor })
+    expect(third.nextCursor).toEqual({ price: 1 })
+  })
+
+  it('validates the tie count of a cursor', () => {
+    expect(() =>
+      validateQuery({ orderBy: { id: 'asc' }, cursor: { id: 1, $ties: -1 } })
+    ).toThrow(QueryError)
+  })
+
+  it('pages through equal text scores', () => {
+    const items = [
+      { id: 1, name: 'red apple' },
+      { id: 2, name: 'green apple' },
+      { id: 3, name: 'apple pie' },
+    ]
+    const query: ObjectQuery<(typeof items)[number], never, never> = {
+      where: { $text: { search: 'apple', fields: ['name'] } },
+      orderBy: { $textScore: 'desc' },
+      take: 2,
+    }
+    const first = findPage(items, query)
+    expect(first.nextCursor).toMatchObject({ $ties: 2 })
+    const second = findPage(items, { ...query, cursor: first.nextCursor })
+    expect(second.items.map((item) => item.id)).toEqual([3])
+  })
+
+  it('seeks past a removed cursor item by its sort key', () => {
+    const first = findPage(rows, { orderBy: { id: 'asc' }, take: 2 })
+    const remaining = rows.filter((r) => r.id !== 2)
+    const next = findPage(remaining, {
+      orderBy: { id: 'asc' },
+      cursor: first.nextCursor,
+      take: 2,
+    })
+    expect(next.items.map((r) => r.id)).toEqual([3, 4])
+    expect(next.hasNextPage).toBe(true)
+    expect(next.nextCursor).toEqual({ id: 4 })
+  })
+
+  it('seeks in descending order', () => {
+    const page = findPage(rows, {
+      orderBy: { cat: 'desc', id: 'desc' },
+      cursor: { cat: 'b', id: 1 },
+      take: 2,
+    })
+    expect(page.items.map((r) => r.id)).toEqual([5, 4])
+  })
+})
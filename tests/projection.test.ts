@@ -0,0 +1,102 @@
+import { describe, it, expect, expectTypeOf } from 'vitest'
+import { findMany, findFirst, findPage } from '../src/index'
+import type { ObjectQuery } from '../src/index'
+
+type User = {
+  id: number
+  name: string
+  password: string
+  profile: {
+    age: number
+    address: { city: string; zip: string }
+  }
+  orders: { sku: string; total: number }[]
+}
+
+const users: User[] = [
+  {
+    id: 1,
+    name: 'Alice',
+    password: 'secret',
+    profile: { age: 30, address: { city: 'Berlin', zip: '10115' } },
+    orders: [
+      { sku: 'A1', total: 10 },
+      { sku: 'B2', total: 20 },
+    ],
+  },
+  {
+    id: 2,
+    name: 'Bob',
+    password: 'hunter2',
+    profile: { age: 25, address: { city: 'Paris', zip: '75001' } },
+    orders: [],
+  },
+]
+
+describe('Projection', () => {
+  it('selects top-level keys and nested paths', () => {
+    const result = findMany(users, {
+      where: { id: 1 },
+      select: ['id', 'profile.address.city'],
+    })
+    expect(result).toEqual([
+      { id: 1, profile: { address: { city: 'Berlin' } } },
+    ])
+    expectTypeOf(result).toEqualTypeOf<
+      { id: number; profile: { address: { city: string } } }[]
+    >()
+  })
+
+  it('selects paths inside array elements', () => {
+    const result = findMany(users, { select: ['orders.sku'], take: 1 })
+    expect(result).toEqual([{ orders: [{ sku: 'A1' }, { sku: 'B2' }] }])
+    expectTypeOf(result).toEqualTypeOf<{ orders: { sku: string }[] }[]>()
+  })
+
+  it('omits top-level keys and nested paths', () => {
+    const result = findFirst(users, {
+      where: { id: 2 },
+      omit: ['password', 'orders', 'profile.address.zip'],
+    })
+    expect(result).toEqual({
+      id: 2,
+      name: 'Bob',
+      profile: { age: 25, address: { city: 'Paris' } },
+    })
+    expectTypeOf(result).toEqualTypeOf<
+      | {
+          id: number
+          name: string
+          profile: { age: number; address: { city: string } }
+        }
+      | undefined
+    >()
+  })
+
+  it('combines select and omit', () => {
+    const result = findMany(users, {
+      select: ['name', 'profile'],
+      omit: ['profile.address'],
+    })
+    expect(result).toEqual([
+      { name: 'Alice', profile: { age: 30 } },
+      { name: 'Bob', profile: { age: 25 } },
+    ])
+  })
+
+  it('projects page items but builds cursors from full objects', () => {
+    const page = findPage(users, {
+      orderBy: { id: 'asc' },
+      select: ['name'],
+      take: 1,
+    })
+    expect(page.items).toEqual([{ name: 'Alice' }])
+    expect(page.nextCursor).toEqual({ id: 1 })
+  })
+
+  it('keeps the full type without a projection', () => {
+    const query: ObjectQuery<User> = { where: { id: 1 } }
+    expectTypeOf(findMany(users)).toEqualTypeOf<User[]>()
+    expect(findMany(users, query)).toHaveLength(1)
+  })
+})
@@ -128,8 +128,8 @@ describe('Real-World Examples', () => {
       where: { 'subscription.active': true },
     })
     expect(grouped).toEqual([
-      { name: 'enterprise', items: [users[0]] },
-      { name: 'free', items: [users[1]] },
+      { name: 'enterprise', key: 'enterprise', items: [users[0]], count: 1 },
+      { name: 'free', key: 'free', items: [users[1]], count: 1 },
     ])
   })
 
@@ -275,8 +275,13 @@ describe('Real-World Examples', () => {
       where: { 'pricing.sale.active': true },
     })
     expect(groups).toEqual([
-      { name: 'laptops', items: [products[0]] },
-      { name: 'accessories', items: [products[2]] },
+      { name: 'laptops', key: 'laptops', items: [products[0]], count: 1 },
+      {
+        name: 'accessories',
+        key: 'accessories',
+        items: [products[2]],
+        count: 1,
+      },
     ])
   })
 
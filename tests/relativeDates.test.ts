@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createEngine,
+  findMany,
+  validateQuery,
+  InvalidOperandError,
+} from '../src/index'
+import type { ObjectFilter, ObjectQuery } from '../src/index'
+import { findBoth } from './helpers'
+
+type Event = { id: number; at: Date }
+
+// Friday 2024-03-15 10:00 UTC, 11:00 in Berlin
+const now = new Date('2024-03-15T10:00:00Z')
+
+const events: Event[] = [
+  { id: 1, at: new Date('2024-03-14T10:00:00Z') },
+  { id: 2, at: new Date('2024-03-08T09:00:00Z') },
+  { id: 3, at: new Date('2024-03-09T12:00:00Z') },
+  { id: 4, at: new Date('2024-03-20T08:00:00Z') },
+  // March 1, 00:30 in Berlin
+  { id: 5, at: new Date('2024-02-29T23:30:00Z') },
+  // Saturday March 16, 00:30 in Berlin
+  { id: 6, at: new Date('2024-03-15T23:30:00Z') },
+]
+
+const engine = createEngine({ now: () => now })
+
+const run = (where: ObjectFilter<Event>, context = engine) =>
+  findBoth(events, { where }, 'id', context)
+
+describe('relative date operators', () => {
+  it('matches dates within a duration before or after now', () => {
+    expect(run({ at: { $withinLast: { days: 7 } } })).toEqual([1, 3])
+    expect(run({ at: { $withinLast: { hours: 24 } } })).toEqual([1])
+    expect(run({ at: { $withinLast: { months: 1 } } })).toEqual([1, 2, 3, 5])
+    expect(run({ at: { $withinNext: { weeks: 1 } } })).toEqual([4, 6])
+    expect(
+      run({ at: { $withinNext: { days: 1, hours: 12, minutes: 30 } } })
+    ).toEqual([6])
+  })
+
+  it('clamps calendar durations to the end of the month', () => {
+    const days = ['2024-02-28', '2024-02-29', '2024-03-01', '2024-03-02']
+      .concat(['2025-02-28', '2025-03-01'])
+      .map((day, i) => ({ id: i + 1, at: new Date(`${day}T13:00:00Z`) }))
+    const within = (at: string, where: ObjectFilter<Event>) =>
+      findBoth(days, { where }, 'id', createEngine({ now: () => new Date(at) }))
+
+    expect(
+      within('2024-03-31T12:00:00Z', { at: { $withinLast: { months: 1 } } })
+    ).toEqual([2, 3, 4])
+    expect(
+      within('2024-01-31T12:00:00Z', { at: { $withinNext: { months: 1 } } })
+    ).toEqual([1])
+    expect(
+      within('2023-11-30T12:00:00Z', { at: { $withinNext: { quarters: 1 } } })
+    ).toEqual([1])
+    expect(
+      within('2024-02-29T12:00:00Z', { at: { $withinNext: { years: 1 } } })
+    ).toEqual([2, 3, 4])
+  })
+
+  it('uses the system clock by default', () => {
+    const recent = [{ at: new Date(Date.now() - 1000) }]
+    expect(
+      findMany(recent, { where: { at: { $withinLast: { minutes: 1 } } } })
+    ).toHaveLength(1)
+  })
+})
+
+describe('calendar date operators', () => {
+  it('matches the same day, month or year', () => {
+    expect(run({ at: { $sameDay: 'now' } })).toEqual([6])
+    expect(run({ at: { $sameDay: new Date('2024-03-09T00:00:00Z') } })).toEqual(
+      [3]
+    )
+    expect(run({ at: { $sameMonth: 'now' } })).toEqual([1, 2, 3, 4, 6])
+    expect(run({ at: { $sameYear: 'now' } })).toHaveLength(6)
+  })
+
+  it('matches date parts', () => {
+    expect(run({ at: { $year: 2024 } })).toHaveLength(6)
+    expect(run({ at: { $month: 2 } })).toEqual([5])
+    expect(run({ at: { $dayOfMonth: { $lte: 9 } } })).toEqual([2, 3])
+    expect(run({ at: { $dayOfWeek: { $in: [0, 6] } } })).toEqual([3])
+    expect(run({ at: { $hour: { $gte: 9, $lt: 17 } } })).toEqual([1, 2, 3])
+  })
+
+  it('evaluates in the time zone of the condition', () => {
+    const timeZone = 'Europe/Berlin'
+    expect(run({ at: { $sameDay: 'now', $timeZone: timeZone } })).toEqual([])
+    expect(run({ at: { $sameMonth: 'now', $timeZone: timeZone } })).toEqual([
+      1, 2, 3, 4, 5, 6,
+    ])
+    expect(run({ at: { $month: 2, $timeZone: timeZone } })).toEqual([])
+    expect(
+      run({ at: { $dayOfWeek: { $in: [0, 6] }, $timeZone: timeZone } })
+    ).toEqual([3, 6])
+  })
+
+  it('uses the time zone of the engine by default', () => {
+    const berlin = createEngine({ now: () => now, timeZone: 'Europe/Berlin' })
+    expect(run({ at: { $dayOfWeek: { $in: [0, 6] } } }, berlin)).toEqual([3, 6])
+    expect(
+      run({ at: { $dayOfWeek: { $in: [0, 6] }, $timeZone: 'UTC' } }, berlin)
+    ).toEqual([3])
+  })
+
+  it('validates operands', () => {
+    expect(() =>
+      validateQuery<Event>({
+        where: {
+          at: {
+            $withinLast: { days: 7 },
+            $hour: { $lt: 12 },
+            $timeZone: 'UTC',
+          },
+        },
+      })
+    ).not.toThrow()
+    expect(() =>
+      validateQuery({
+        where: { at: { $withinLast: { fortnights: 1 } } },
+      } as unknown as ObjectQuery<Event>)
+    ).toThrow(
+      'Invalid operand for $withinLast: expected a duration of non-negative years, quarters, months, weeks, days, hours, minutes, seconds at where.at.$withinLast'
+    )
+    expect(() =>
+      validateQuery({
+        where: { at: { $sameDay: 'today' } },
+      } as unknown as ObjectQuery<Event>)
+    ).toThrow(InvalidOperandError)
+    expect(() =>
+      validateQuery({
+        where: { at: { $dayOfWeek: { $in: 6 } } },
+      } as unknown as ObjectQuery<Event>)
+    ).toThrow('at where.at.$dayOfWeek.$in')
+    expect(() =>
+      validateQuery({
+        where: { at: { $sameDay: 'now', $timeZone: 'Mars/Olympus' } },
+      } as unknown as ObjectQuery<Event>)
+    ).toThrow(
+      'Invalid operand for $timeZone: expected an IANA time zone at where.at.$timeZone'
+    )
+  })
+})
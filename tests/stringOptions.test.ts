@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest'
+import {
+  compileQuery,
+  createEngine,
+  diagnose,
+  findMany,
+  validateQuery,
+  InvalidOperandError,
+} from '../src/index'
+import type { ObjectFilter, ObjectQuery, QueryEngine } from '../src/index'
+import { findBoth } from './helpers'
+
+type Product = { sku: string; name: string; tags: string[] }
+
+const products: Product[] = [
+  { sku: 'AB-100', name: 'Desk lamp\nBrass', tags: ['Home', 'LED'] },
+  { sku: 'ab-200', name: 'Floor lamp', tags: ['home'] },
+  { sku: 'CD-300', name: 'Desk', tags: [] },
+]
+
+const skus = (items: Product[]) => items.map((item) => item.sku)
+
+const run = (where: ObjectFilter<Product>, engine?: QueryEngine) =>
+  findBoth(products, { where }, 'sku', engine)
+
+describe('string operator options', () => {
+  it('matches case-insensitively by default', () => {
+    expect(run({ sku: { $startsWith: 'ab' } })).toEqual(['AB-100', 'ab-200'])
+    expect(run({ tags: { $contains: 'HOME' } })).toEqual(['AB-100', 'ab-200'])
+    expect(run({ sku: { $regex: '^ab' } })).toEqual(['AB-100', 'ab-200'])
+  })
+
+  it('matches case with $caseSensitive', () => {
+    expect(run({ sku: { $startsWith: 'AB', $caseSensitive: true } })).toEqual([
+      'AB-100',
+    ])
+    expect(run({ sku: { $endsWith: '-200', $caseSensitive: true } })).toEqual([
+      'ab-200',
+    ])
+    expect(run({ name: { $contains: 'desk', $caseSensitive: true } })).toEqual(
+      []
+    )
+    expect(run({ tags: { $contains: 'home', $caseSensitive: true } })).toEqual([
+      'ab-200',
+    ])
+    expect(run({ sku: { $regex: '^ab', $caseSensitive: true } })).toEqual([
+      'ab-200',
+    ])
+  })
+
+  it('adds $options flags to $regex patterns', () => {
+    expect(run({ name: { $regex: '^brass$', $options: 'm' } })).toEqual([
+      'AB-100',
+    ])
+    expect(run({ name: { $regex: '^brass$' } })).toEqual([])
+    expect(
+      run({ sku: { $regex: '^ab', $options: 'i', $caseSensitive: true } })
+    ).toEqual(['AB-100', 'ab-200'])
+  })
+
+  it('accepts RegExp values with their own flags', () => {
+    expect(run({ sku: { $regex: /^AB/ } })).toEqual(['AB-100'])
+    expect(run({ sku: /^ab/i })).toEqual(['AB-100', 'ab-200'])
+    expect(run({ sku: /^AB/ })).toEqual(['AB-100'])
+    // Global regexes don't carry state between objects
+    expect(run({ sku: /00/g })).toEqual(['AB-100', 'ab-200', 'CD-300'])
+    expect(run({ sku: { $not: /^ab/i } })).toEqual(['CD-300'])
+  })
+
+  it('uses the engine default unless a condition overrides it', () => {
+    const engine = createEngine({ caseSensitive: true })
+    expect(run({ sku: { $startsWith: 'ab' } }, engine)).toEqual(['ab-200'])
+    expect(run({ sku: { $regex: '^AB' } }, engine)).toEqual(['AB-100'])
+    expect(
+      run({ sku: { $startsWith: 'ab', $caseSensitive: false } }, engine)
+    ).toEqual(['AB-100', 'ab-200'])
+    expect(engine.extend().caseSensitive).toBe(true)
+    expect(
+      skus(findMany(products, { where: { sku: { $startsWith: 'ab' } } }))
+    ).toEqual(['AB-100', 'ab-200'])
+  })
+
+  it('applies to values collected through arrays', () => {
+    const orders = [{ lines: products }, { lines: products.slice(1) }]
+    expect(
+      findMany(orders, {
+        where: {
+          'lines.sku': { $startsWith: 'AB', $caseSensitive: true },
+        } as ObjectFilter<(typeof orders)[number]>,
+      })
+    ).toHaveLength(1)
+    expect(
+      findMany(
+        orders,
+        compileQuery({
+          where: { 'lines.sku': /^CD/ } as ObjectFilter<
+            (typeof orders)[number]
+          >,
+        })
+      )
+    ).toHaveLength(2)
+  })
+
+  it('keeps modifiers in diagnoses', () => {
+    expect(
+      diagnose(products[1], {
+        sku: { $startsWith: 'AB', $caseSensitive: true },
+      }).reason
+    ).toBe('sku is "ab-200", expected $startsWith "AB"')
+    expect(diagnose(products[2], { sku: /^ab/i }).reason).toBe(
+      'sku is "CD-300", expected $regex /^ab/i'
+    )
+  })
+
+  it('validates options', () => {
+    expect(() =>
+      validateQuery<Product>({
+        where: { sku: { $regex: /^ab/, $caseSensitive: true } },
+      })
+    ).not.toThrow()
+    expect(() =>
+      validateQuery({
+        where: { sku: { $regex: 'ab', $options: 'q' } },
+      } as unknown as ObjectQuery<Product>)
+    ).toThrow(
+      'Invalid operand for $options: expected valid regular expression flags at where.sku.$options'
+    )
+    expect(() =>
+      validateQuery({
+        where: { sku: { $contains: 'ab', $caseSensitive: 'yes' } },
+      } as unknown as ObjectQuery<Product>)
+    ).toThrow(InvalidOperandError)
+  })
+})
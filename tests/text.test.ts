@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest'
+import {
+  diagnose,
+  findPage,
+  textScore,
+  validateQuery,
+  InvalidOperandError,
+  InvalidPathError,
+} from '../src/index'
+import type { ObjectFilter, ObjectQuery, TextSearch } from '../src/index'
+import { findBoth } from './helpers'
+
+type Product = { name: string; description: string; tags: string[] }
+
+const products: Product[] = [
+  {
+    name: 'Laptop Stand',
+    description: 'Aluminium stand for any laptop',
+    tags: ['desk'],
+  },
+  {
+    name: 'Gaming Laptop',
+    description: 'Refurbished gaming laptop with a fast display',
+    tags: ['laptop', 'gaming'],
+  },
+  {
+    name: 'Ultrabook',
+    description: 'Light laptop, long battery life',
+    tags: ['laptop', 'travel'],
+  },
+  {
+    name: 'Café Mug',
+    description: 'Ceramic mug',
+    tags: ['kitchen'],
+  },
+]
+
+const names = (items: Product[]) => items.map((item) => item.name)
+
+const run = (query: ObjectQuery<Product, never, never>) =>
+  findBoth(products, query, 'name')
+
+const search = (
+  text: string,
+  fields: TextSearch<Product>['fields'] = ['name', 'description', 'tags']
+): ObjectFilter<Product> => ({ $text: { search: text, fields } })
+
+describe('$text', () => {
+  it('matches any term in any of the fields', () => {
+    expect(run({ where: search('battery mug') })).toEqual([
+      'Ultrabook',
+      'Café Mug',
+    ])
+    expect(run({ where: search('travel') })).toEqual(['Ultrabook'])
+    expect(run({ where: search('travel', ['name']) })).toEqual([])
+  })
+
+  it('ignores case and accents', () => {
+    expect(run({ where: search('CAFE') })).toEqual(['Café Mug'])
+    expect(run({ where: search('aluminium') })).toEqual(['Laptop Stand'])
+  })
+
+  it('excludes negated terms', () => {
+    expect(run({ where: search('laptop -refurbished') })).toEqual([
+      'Laptop Stand',
+      'Ultrabook',
+    ])
+    expect(run({ where: search('laptop -travel -desk') })).toEqual([
+      'Gaming Laptop',
+    ])
+  })
+
+  it('excludes negated phrases', () => {
+    const foods = ['apple pie', 'apple juice', 'pie crust'].map((name) => ({
+      name,
+    }))
+    expect(
+      findBoth(
+        foods,
+        {
+          where: { $text: { search: 'apple -"apple pie"', fields: ['name'] } },
+        },
+        'name'
+      )
+    ).toEqual(['apple juice'])
+    expect(
+      findBoth(
+        foods,
+        { where: { $text: { search: 'pie -"pie apple"', fields: ['name'] } } },
+        'name'
+      )
+    ).toEqual(['apple pie', 'pie crust'])
+  })
+
+  it('requires quoted phrases', () => {
+    expect(run({ where: search('"gaming laptop"') })).toEqual(['Gaming Laptop'])
+    expect(run({ where: search('"laptop gaming"') })).toEqual([])
+    expect(run({ where: search('mug "battery life"') })).toEqual(['Ultrabook'])
+  })
+
+  it('combines with other conditions', () => {
+    expect(
+      run({ where: { ...search('laptop'), tags: { $contains: 'travel' } } })
+    ).toEqual(['Ultrabook'])
+    expect(
+      run({
+        where: { $and: [search('laptop'), { name: { $ne: 'Ultrabook' } }] },
+      })
+    ).toEqual(['Laptop Stand', 'Gaming Laptop'])
+  })
+
+  it('scores by weighted term and phrase occurrences', () => {
+    const text = { search: 'laptop', fields: { name: 3, description: 1 } }
+    expect(textScore(products[0], text)).toBe(4)
+    expect(textScore(products[1], text)).toBe(4)
+    expect(textScore(products[2], text)).toBe(1)
+    expect(textScore(products[3], text)).toBe(0)
+    expect(
+      textScore(products[1], { search: '"gaming laptop"', fields: ['name'] })
+    ).toBe(2)
+  })
+
+  it('sorts by relevance with $textScore', () => {
+    const where = search('laptop gaming', { name: 3, tags: 2, description: 1 })
+    expect(run({ where, orderBy: { $textScore: 'desc' } })).toEqual([
+      'Gaming Laptop',
+      'Laptop Stand',
+      'Ultrabook',
+    ])
+    expect(
+      run({ where, orderBy: { $textScore: 'asc', name: 'desc' } })
+    ).toEqual(['Ultrabook', 'Laptop Stand', 'Gaming Laptop'])
+
+    const page = findPage(products, {
+      where,
+      orderBy: { $textScore: 'desc', name: 'asc' },
+      take: 1,
+    })
+    expect(page.nextCursor).toEqual({ $textScore: 12, name: 'Gaming Laptop' })
+    const next = findPage(products, {
+      where,
+      orderBy: { $textScore: 'desc', name: 'asc' },
+      cursor: page.nextCursor,
+      take: 1,
+    })
+    expect(names(next.items)).toEqual(['Laptop Stand'])
+  })
+
+  it('explains a failed search', () => {
+    const diagnosis = diagnose(products[3], search('laptop'))
+    expect(diagnosis.matched).toBe(false)
+  })
+
+  it('validates the search', () => {
+    expect(() =>
+      validateQuery<Product>({ where: search('x', { name: 2 }) })
+    ).not.toThrow()
+    expect(() =>
+      validateQuery({
+        where: { $text: { search: 'x', fields: [] } },
+      } as unknown as ObjectQuery<Product>)
+    ).toThrow(
+      'Invalid operand for $text: expected { search, fields } with a list of paths or path weights at where.$text'
+    )
+    expect(() =>
+      validateQuery({
+        where: { $text: { search: 'x', fields: { name: 0 } } },
+      } as unknown as ObjectQuery<Product>)
+    ).toThrow(InvalidOperandError)
+    expect(() =>
+      validateQuery({
+        where: { $text: { search: 'x', fields: ['name.'] } },
+      } as unknown as ObjectQuery<Product>)
+    ).toThrow(InvalidPathError)
+  })
+})
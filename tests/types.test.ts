@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createCollection,
+  createEngine,
+  findMany,
+  validateQuery,
+  InvalidOperandError,
+} from '../src/index'
+import type { ObjectFilter, ObjectQuery, QueryEngine } from '../src/index'
+import { findBoth } from './helpers'
+
+type Reading = {
+  id: number
+  value: number | string | null
+  at?: Date | string
+  meta?: unknown
+}
+
+const readings: Reading[] = [
+  { id: 1, value: 42, at: new Date('2024-03-01T00:00:00Z'), meta: {} },
+  { id: 2, value: '7', at: '2024-01-15', meta: ['raw'] },
+  { id: 3, value: '100.5', at: '2024-06-30T12:00:00Z', meta: true },
+  { id: 4, value: 'n/a', at: 'yesterday', meta: BigInt(10) },
+  { id: 5, value: null },
+]
+
+const ids = (items: Reading[]) => items.map((item) => item.id)
+
+const run = (where: ObjectFilter<Reading>, engine?: QueryEngine) =>
+  findBoth(readings, { where }, 'id', engine)
+
+describe('$type', () => {
+  it('matches values of a type', () => {
+    expect(run({ value: { $type: 'number' } })).toEqual([1])
+    expect(run({ value: { $type: 'string' } })).toEqual([2, 3, 4])
+    expect(run({ value: { $type: 'null' } })).toEqual([5])
+    expect(run({ at: { $type: 'date' } })).toEqual([1])
+    expect(run({ meta: { $type: 'object' } })).toEqual([1])
+    expect(run({ meta: { $type: 'array' } })).toEqual([2])
+    expect(run({ meta: { $type: 'boolean' } })).toEqual([3])
+    expect(run({ meta: { $type: 'bigint' } })).toEqual([4])
+  })
+
+  it('matches any of several types', () => {
+    expect(run({ value: { $type: ['number', 'null'] } })).toEqual([1, 5])
+    expect(run({ at: { $not: { $type: ['date', 'string'] } } })).toEqual([5])
+  })
+
+  it('does not match missing values', () => {
+    expect(run({ at: { $type: 'null' } })).toEqual([])
+  })
+
+  it('validates type names', () => {
+    expect(() =>
+      validateQuery<Reading>({ where: { value: { $type: ['string'] } } })
+    ).not.toThrow()
+    expect(() =>
+      validateQuery({
+        where: { value: { $type: 'integer' } },
+      } as unknown as ObjectQuery<Reading>)
+    ).toThrow(
+      'Invalid operand for $type: expected one or more of string, number, date, array, object, null, boolean, bigint at where.value.$type'
+    )
+    expect(() =>
+      validateQuery({
+        where: { value: { $type: [] } },
+      } as unknown as ObjectQuery<Reading>)
+    ).toThrow(InvalidOperandError)
+  })
+})
+
+describe('coerceTypes', () => {
+  const engine = createEngine({ coerceTypes: true })
+
+  it('compares numeric strings with numbers', () => {
+    expect(run({ value: { $gt: 10 } })).toEqual([1])
+    expect(run({ value: { $gt: 10 } }, engine)).toEqual([1, 3])
+    expect(run({ value: { $lte: 7 } }, engine)).toEqual([2])
+    expect(run({ value: { $between: [5, 50] } }, engine)).toEqual([1, 2])
+  })
+
+  it('compares ISO date strings with dates', () => {
+    const since = new Date('2024-02-01T00:00:00Z')
+    expect(run({ at: { $gte: since } })).toEqual([1])
+    expect(run({ at: { $gte: since } }, engine)).toEqual([1, 3])
+    expect(run({ at: { $lt: since } }, engine)).toEqual([2])
+    expect(
+      run(
+        {
+          at: {
+            $between: [new Date('2024-01-01'), new Date('2024-03-31')],
+          },
+        },
+        engine
+      )
+    ).toEqual([1, 2])
+  })
+
+  it('keeps equality strict', () => {
+    expect(run({ value: 7 }, engine)).toEqual([])
+    expect(run({ value: { $in: [42, 7] } }, engine)).toEqual([1])
+  })
+
+  it('does not narrow coerced ranges with sorted indexes', () => {
+    const collection = createCollection(readings, {
+      indexes: { value: 'sorted' },
+    })
+    expect(
+      ids(engine.findMany(collection, { where: { value: { $gte: 7 } } }))
+    ).toEqual([1, 2, 3])
+    expect(
+      ids(findMany(collection, { where: { value: { $gte: 7 } } }))
+    ).toEqual([1])
+  })
+})
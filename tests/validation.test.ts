@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest'
+import {
+  aggregate,
+  compileQuery,
+  findFirst,
+  findMany,
+  findPage,
+  groupBy,
+  validateQuery,
+  QueryError,
+  UnknownOperatorError,
+  InvalidOperandError,
+  InvalidPathError,
+} from '../src/index'
+import type { ObjectQuery } from '../src/index'
+
+type User = {
+  name: string
+  age: number
+  tags: string[]
+  profile: { city: string }
+}
+
+const users: User[] = [
+  { name: 'Ada', age: 36, tags: ['admin'], profile: { city: 'London' } },
+  { name: 'Linus', age: 28, tags: [], profile: { city: 'Helsinki' } },
+]
+
+function catchError(fn: () => unknown): unknown {
+  try {
+    fn()
+  } catch (error) {
+    return error
+  }
+  return undefined
+}
+
+describe('validateQuery', () => {
+  it('accepts valid queries', () => {
+    expect(() =>
+      validateQuery<User>({
+        where: {
+          $or: [{ age: { $gte: 30 } }, { tags: { $contains: 'admin' } }],
+          'profile.city': { $in: ['London', 'Paris'] },
+          name: { $regex: '^a', $exists: true },
+        },
+        orderBy: { age: 'desc' },
+        skip: 0,
+        take: 10,
+        select: ['name', 'profile.city'],
+      })
+    ).not.toThrow()
+  })
+
+  it('reports unknown operators with their location', () => {
+    const error = catchError(() =>
+      validateQuery({
+        where: { $or: [{ age: 1 }, { name: { $contians: 'a' } }] },
+      } as unknown as ObjectQuery<User>)
+    )
+    expect(error).toBeInstanceOf(UnknownOperatorError)
+    expect(error).toBeInstanceOf(QueryError)
+    expect(error).toMatchObject({
+      operator: '$contians',
+      path: 'where.$or[1].name.$contians',
+      message: 'Unknown operator "$contians" at where.$or[1].name.$contians',
+    })
+
+    expect(() =>
+      validateQuery({
+        where: { age: { '$gte ': 18 } },
+      } as unknown as ObjectQuery<User>)
+    ).toThrow(UnknownOperatorError)
+    expect(() =>
+      validateQuery({
+        where: { $where: 'age > 1' },
+      } as unknown as ObjectQuery<User>)
+    ).toThrow(UnknownOperatorError)
+  })
+
+  it('reports malformed operands', () => {
+    const error = catchError(() =>
+      validateQuery({
+        where: { age: { $between: [1, 2, 3] } },
+      } as unknown as ObjectQuery<User>)
+    )
+    expect(error).toBeInstanceOf(InvalidOperandError)
+    expect(error).toMatchObject({
+      operator: '$between',
+      operand: [1, 2, 3],
+      path: 'where.age.$between',
+    })
+
+    const invalid = [
+      { tags: { $in: 'admin' } },
+      { age: { $gt: null } },
+      { tags: { $size: -1 } },
+      { name: { $regex: '(' } },
+      { name: { $exists: 'yes' } },
+      { $and: { age: 1 } },
+    ]
+    for (const where of invalid) {
+      expect(() =>
+        validateQuery({ where } as unknown as ObjectQuery<User>)
+      ).toThrow(InvalidOperandError)
+    }
+  })
+
+  it('reports invalid paths and options', () => {
+    expect(
+      catchError(() =>
+        validateQuery<User>({ where: { 'profile..city': 'x' } as never })
+      )
+    ).toMatchObject({
+      name: 'InvalidPathError',
+      field: 'profile..city',
+      path: 'where["profile..city"]',
+    })
+    expect(() =>
+      validateQuery({ select: ['name '] } as unknown as ObjectQuery<User>)
+    ).toThrow(InvalidPathError)
+    expect(() =>
+      validateQuery({
+        orderBy: { age: 'up' },
+      } as unknown as ObjectQuery<User>)
+    ).toThrow(
+      'Invalid sort direction "up": expected "asc" or "desc" at orderBy.age'
+    )
+    expect(() => validateQuery<User>({ take: -1 })).toThrow(QueryError)
+  })
+})
+
+describe('strict mode', () => {
+  const typo = {
+    where: { name: { $contians: 'a' } },
+    strict: true,
+  } as unknown as ObjectQuery<User>
+
+  it('throws from all query functions', () => {
+    expect(() => findMany(users, typo)).toThrow(UnknownOperatorError)
+    expect(() => findFirst(users, typo)).toThrow(UnknownOperatorError)
+    expect(() => findPage(users, typo)).toThrow(UnknownOperatorError)
+    expect(() => groupBy(users, 'age', typo)).toThrow(UnknownOperatorError)
+    expect(() => compileQuery(typo)).toThrow(UnknownOperatorError)
+    expect(() => aggregate(users, { ...typo, _count: true })).toThrow(
+      UnknownOperatorError
+    )
+  })
+
+  it('keeps ignoring unknown operators without strict', () => {
+    expect(findMany(users, { ...typo, strict: false })).toHaveLength(2)
+  })
+})